@@ -0,0 +1,182 @@
+// Rebuilds every user's `stats` and handicap index from scratch by replaying the
+// whole `rounds` collection through the same aggregation the app uses on each
+// round write.
+//
+// Usage:
+//   npm run stats:recompute -- --project <projectId> [--dry-run] [--json]
+//
+// Against the emulator, set FIRESTORE_EMULATOR_HOST (e.g. localhost:8080).
+// Against a real project, point GOOGLE_APPLICATION_CREDENTIALS at a service
+// account key.
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import type { HandicapRevision, Round, User } from '../src/utils/firebase';
+import { aggregateStats, isFinishedRound, normalizeRound, EMPTY_STATS, UserStats } from '../src/utils/stats';
+import { getCurrentIndex, getHandicapHistory } from '../src/utils/handicap';
+
+// Firestore caps a batch at 500 writes
+const BATCH_SIZE = 500;
+
+interface Options {
+  projectId?: string;
+  dryRun: boolean;
+  json: boolean;
+}
+
+// Stats plus the handicap fields the replay rewrites
+type Snapshot = UserStats & { handicapIndex: number | null; handicapHistory: HandicapRevision[] };
+
+interface StatsDiff {
+  uid: string;
+  name: string;
+  before: Snapshot;
+  after: Snapshot;
+  changed: (keyof Snapshot)[];
+  update: Pick<User, 'stats' | 'handicapIndex' | 'handicapHistory'>;
+}
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    projectId: process.env.GCLOUD_PROJECT || process.env.REACT_APP_FIREBASE_PROJECT_ID,
+    dryRun: false,
+    json: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--project') {
+      options.projectId = argv[++i];
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+};
+
+// Field by field, since stored revisions don't keep their keys in the order they were built
+const isSameHistory = (a: HandicapRevision[], b: HandicapRevision[]) =>
+  a.length === b.length && a.every((revision, i) =>
+    revision.date === b[i].date &&
+    revision.roundId === b[i].roundId &&
+    revision.differential === b[i].differential &&
+    revision.index === b[i].index
+  );
+
+const diffStats = (before: Snapshot, after: Snapshot): (keyof Snapshot)[] => {
+  const keys = [...Object.keys(EMPTY_STATS), 'handicapIndex'] as (keyof Snapshot)[];
+  return [
+    ...keys.filter(key => before[key] !== after[key]),
+    ...(isSameHistory(before.handicapHistory, after.handicapHistory) ? [] : ['handicapHistory' as const])
+  ];
+};
+
+// A revision history is too long to print, so report how many revisions it has
+const formatValue = (snapshot: Snapshot, key: keyof Snapshot) =>
+  key === 'handicapHistory' ? `${snapshot.handicapHistory.length} revisions` : String(snapshot[key]);
+
+const printReport = (diffs: StatsDiff[], totalUsers: number, roundCount: number) => {
+  console.log(`Replayed ${roundCount} rounds for ${totalUsers} users`);
+
+  if (diffs.length === 0) {
+    console.log('All stats are already up to date');
+    return;
+  }
+
+  diffs.forEach(diff => {
+    console.log(`\n${diff.name} (${diff.uid})`);
+    diff.changed.forEach(key => {
+      console.log(`  ${key.padEnd(16)} ${formatValue(diff.before, key).padStart(6)} -> ${formatValue(diff.after, key)}`);
+    });
+  });
+
+  console.log(`\n${diffs.length} of ${totalUsers} users have stale stats or handicaps`);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.projectId) {
+    throw new Error('No project ID. Pass --project or set GCLOUD_PROJECT');
+  }
+
+  // The emulator doesn't check credentials
+  initializeApp({
+    projectId: options.projectId,
+    ...(process.env.FIRESTORE_EMULATOR_HOST ? {} : { credential: applicationDefault() })
+  });
+  const db = getFirestore();
+
+  const [usersSnap, roundsSnap] = await Promise.all([
+    db.collection('users').get(),
+    db.collection('rounds').get()
+  ]);
+
+  const rounds = roundsSnap.docs
+    .map(doc => normalizeRound({ id: doc.id, ...doc.data() } as Round))
+    .filter(isFinishedRound);
+
+  const diffs: StatsDiff[] = [];
+  usersSnap.docs.forEach(doc => {
+    const user = { uid: doc.id, ...doc.data() } as User;
+    const userRounds = rounds.filter(round => round.players.includes(user.uid));
+    const stats = aggregateStats(userRounds, user.uid);
+    const handicapHistory = getHandicapHistory(userRounds, user.uid);
+    const handicapIndex = getCurrentIndex(handicapHistory);
+
+    const before = {
+      ...EMPTY_STATS,
+      ...user.stats,
+      handicapIndex: user.handicapIndex ?? null,
+      handicapHistory: user.handicapHistory || []
+    };
+    const after = { ...stats, handicapIndex, handicapHistory };
+    const changed = diffStats(before, after);
+
+    if (changed.length > 0) {
+      diffs.push({
+        uid: user.uid,
+        name: user.name || 'Unknown Player',
+        before,
+        after,
+        changed,
+        update: { stats, handicapIndex, handicapHistory }
+      });
+    }
+  });
+
+  if (options.json) {
+    const report = diffs.map(({ update, ...diff }) => diff);
+    console.log(JSON.stringify({ dryRun: options.dryRun, users: usersSnap.size, rounds: rounds.length, diffs: report }, null, 2));
+  } else {
+    printReport(diffs, usersSnap.size, rounds.length);
+  }
+
+  if (options.dryRun) {
+    if (!options.json) {
+      console.log('\nDry run: no changes written');
+    }
+    return;
+  }
+
+  for (let i = 0; i < diffs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    diffs.slice(i, i + BATCH_SIZE).forEach(diff => {
+      batch.update(db.collection('users').doc(diff.uid), diff.update);
+    });
+    await batch.commit();
+  }
+
+  if (!options.json) {
+    console.log(`\nUpdated stats for ${diffs.length} users`);
+  }
+};
+
+main().catch(error => {
+  console.error('Stats recompute failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { CourseProvider } from './contexts/CourseContext';
 import LoginPage from './pages/LoginPage';
 import Dashboard from './pages/Dashboard';
 import NewRound from './pages/NewRound';
 import RoundHistory from './pages/RoundHistory';
+import LiveScorecard from './pages/LiveScorecard';
+import LiveLeaderboard from './pages/LiveLeaderboard';
+import RoundDetail from './pages/RoundDetail';
+import EditRound from './pages/EditRound';
 import Profile from './pages/Profile';
 import CoursesPage from './pages/CoursesPage';
 import CourseDetailPage from './pages/CourseDetailPage';
@@ -15,13 +19,15 @@ import OnboardingTour from './components/OnboardingTour';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { currentUser, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return <LoadingSpinner />;
   }
 
+  // Remember where they were headed so a shared link still opens after signing in
   if (!currentUser) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
   return <>{children}</>;
@@ -55,6 +61,38 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/rounds/:roundId" 
+        element={
+          <ProtectedRoute>
+            <RoundDetail />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/rounds/:roundId/edit" 
+        element={
+          <ProtectedRoute>
+            <EditRound />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/rounds/:roundId/score" 
+        element={
+          <ProtectedRoute>
+            <LiveScorecard />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/live/:roundId" 
+        element={
+          <ProtectedRoute>
+            <LiveLeaderboard />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/history" 
         element={
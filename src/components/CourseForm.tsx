@@ -2,7 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useCourses } from '../contexts/CourseContext';
 import { useAuth } from '../contexts/AuthContext';
-import { Course, Location } from '../utils/firebase';
+import { Course, CourseHole, Location, TeeSet } from '../utils/firebase';
+import {
+  createDefaultLayout,
+  createTeeSet,
+  getCourseTees,
+  getLayoutPar,
+  resizeLayout,
+  resizeTeeYardages,
+  validateLayout,
+  validateTees
+} from '../utils/scorecard';
+import HoleLayoutEditor from './HoleLayoutEditor';
+import TeeSetEditor from './TeeSetEditor';
 import { MapPinIcon, XMarkIcon } from '@heroicons/react/24/outline';
 
 interface CourseFormData {
@@ -13,8 +25,23 @@ interface CourseFormData {
   rating?: number;
   slope?: number;
   amenities?: string[];
+  holeLayout: CourseHole[];
+  tees: TeeSet[];
 }
 
+// Older courses have a single rating/slope and per-hole yardage on the layout;
+// carry both into their first tee set
+const loadTees = (course: Course): TeeSet[] => {
+  const tees = resizeTeeYardages(getCourseTees(course), course.holes);
+  if (tees.length === 0) {
+    return [createTeeSet(course.holes)];
+  }
+  if (!course.tees?.length && course.holeLayout?.some(hole => hole.yardage)) {
+    tees[0] = { ...tees[0], yardages: tees[0].yardages.map((yards, i) => course.holeLayout?.[i]?.yardage || yards) };
+  }
+  return tees;
+};
+
 const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
   const navigate = useNavigate();
   const { courseId } = useParams<{ courseId?: string }>();
@@ -34,6 +61,8 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
     holes: 18,
     par: 72,
     amenities: [],
+    holeLayout: createDefaultLayout(18, 72),
+    tees: [createTeeSet(18)],
   });
   const [currentAmenity, setCurrentAmenity] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -51,6 +80,8 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
           rating: currentCourse.rating,
           slope: currentCourse.slope,
           amenities: currentCourse.amenities || [],
+          holeLayout: currentCourse.holeLayout || createDefaultLayout(currentCourse.holes, currentCourse.par),
+          tees: loadTees(currentCourse),
         });
       } else {
         fetchCourse(courseId).then(course => {
@@ -63,6 +94,8 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
               rating: course.rating,
               slope: course.slope,
               amenities: course.amenities || [],
+              holeLayout: course.holeLayout || createDefaultLayout(course.holes, course.par),
+              tees: loadTees(course),
             });
           }
         });
@@ -72,6 +105,17 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+
+    // The layout drives the par total, so keep it and the yardages sized to the hole count
+    if (name === 'holes') {
+      setFormData(prev => {
+        const holeLayout = resizeLayout(prev.holeLayout, Number(value));
+        const tees = resizeTeeYardages(prev.tees, Number(value));
+        return { ...prev, holes: Number(value), holeLayout, tees, par: getLayoutPar(holeLayout) };
+      });
+      return;
+    }
+
     setFormData(prev => ({
       ...prev,
       [name]: name === 'holes' || name === 'par' || name === 'rating' || name === 'slope' 
@@ -119,6 +163,18 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
     setMapError(null);
   };
 
+  const handleLayoutChange = (holeLayout: CourseHole[]) => {
+    setFormData(prev => ({
+      ...prev,
+      holeLayout,
+      par: getLayoutPar(holeLayout)
+    }));
+  };
+
+  const handleTeesChange = (tees: TeeSet[]) => {
+    setFormData(prev => ({ ...prev, tees }));
+  };
+
   const handleAmenityAdd = () => {
     if (currentAmenity.trim() && !formData.amenities?.includes(currentAmenity.trim())) {
       setFormData(prev => ({
@@ -166,6 +222,12 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
       return;
     }
 
+    const layoutError = validateLayout(formData.holeLayout) || validateTees(formData.tees);
+    if (layoutError) {
+      setMapError(layoutError);
+      return;
+    }
+
     // Ensure location has all required fields
     const location = {
       address: formData.location.address || '',
@@ -179,8 +241,10 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
       location,
       holes: Number(formData.holes),
       par: Number(formData.par),
-      rating: formData.rating ? Number(formData.rating) : undefined,
-      slope: formData.slope ? Number(formData.slope) : undefined,
+      // Course-level rating/slope mirror the first tee set
+      rating: formData.tees[0]?.rating || 0,
+      slope: formData.tees[0]?.slope || 0,
+      tees: formData.tees.map(tee => ({ ...tee, name: tee.name.trim() })),
       amenities: formData.amenities || []
     };
 
@@ -374,7 +438,7 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
                 </div>
 
                 {/* Course Details */}
-                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                   <div>
                     <label htmlFor="holes" className="block text-sm font-medium text-gray-700">
                       Number of Holes *
@@ -405,46 +469,39 @@ const CourseForm: React.FC<{ isEdit?: boolean }> = ({ isEdit = false }) => {
                       min="1"
                       max="200"
                       value={formData.par || ''}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                      readOnly
+                      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md bg-gray-50 text-gray-700 focus:ring-green-500 focus:border-green-500"
                       required
                     />
+                    <p className="mt-1 text-xs text-gray-500">Totalled from the hole layout</p>
                   </div>
-                  
-                  <div>
-                    <label htmlFor="rating" className="block text-sm font-medium text-gray-700">
-                      Course Rating
-                    </label>
-                    <input
-                      type="number"
-                      id="rating"
-                      name="rating"
-                      min="50"
-                      max="100"
-                      step="0.1"
-                      value={formData.rating || ''}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
-                      placeholder="e.g., 72.5"
-                    />
-                  </div>
-                  
-                  <div>
-                    <label htmlFor="slope" className="block text-sm font-medium text-gray-700">
-                      Slope Rating
-                    </label>
-                    <input
-                      type="number"
-                      id="slope"
-                      name="slope"
-                      min="55"
-                      max="155"
-                      value={formData.slope || ''}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
-                      placeholder="e.g., 135"
-                    />
-                  </div>
+                </div>
+
+                {/* Tee Sets */}
+                <div>
+                  <h3 className="block text-sm font-medium text-gray-700">
+                    Tee Sets
+                  </h3>
+                  <p className="mt-1 mb-3 text-xs text-gray-500">
+                    Course and slope rating for each set of tees, used for handicaps
+                  </p>
+                  <TeeSetEditor tees={formData.tees} holeCount={formData.holes} onChange={handleTeesChange} />
+                </div>
+
+                {/* Hole Layout */}
+                <div>
+                  <h3 className="block text-sm font-medium text-gray-700">
+                    Hole Layout *
+                  </h3>
+                  <p className="mt-1 mb-3 text-xs text-gray-500">
+                    Par, stroke index (1 = hardest) and yardage from each tee
+                  </p>
+                  <HoleLayoutEditor
+                    layout={formData.holeLayout}
+                    tees={formData.tees}
+                    onChange={handleLayoutChange}
+                    onTeesChange={handleTeesChange}
+                  />
                 </div>
 
                 {/* Amenities */}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { PointEvent } from '../utils/firebase';
+import { POINT_EVENTS } from '../utils/pointGames';
+
+interface HoleEventTogglesProps {
+  events: PointEvent[];
+  isActive: (event: PointEvent) => boolean;
+  onToggle: (event: PointEvent) => void;
+}
+
+// Quick toggles under a player's score for Bingo Bango Bongo and Dots
+const HoleEventToggles: React.FC<HoleEventTogglesProps> = ({ events, isActive, onToggle }) => (
+  <div className="flex flex-wrap justify-center gap-0.5 mt-1 max-w-[4.5rem]">
+    {events.map(event => (
+      <button
+        key={event}
+        type="button"
+        onClick={() => onToggle(event)}
+        title={`${POINT_EVENTS[event].label}: ${POINT_EVENTS[event].description}`}
+        aria-pressed={isActive(event)}
+        className={`px-1 py-0.5 text-[10px] font-semibold rounded transition-colors ${
+          isActive(event)
+            ? 'bg-amber-500 text-white'
+            : 'bg-gray-100 text-gray-500 hover:bg-amber-100'
+        }`}
+      >
+        {POINT_EVENTS[event].short}
+      </button>
+    ))}
+  </div>
+);
+
+export default HoleEventToggles;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { CourseHole, TeeSet } from '../utils/firebase';
+import { getLayoutPar } from '../utils/scorecard';
+
+interface HoleLayoutEditorProps {
+  layout: CourseHole[];
+  tees: TeeSet[];
+  onChange: (layout: CourseHole[]) => void;
+  onTeesChange: (tees: TeeSet[]) => void;
+}
+
+const HoleLayoutEditor: React.FC<HoleLayoutEditorProps> = ({ layout, tees, onChange, onTeesChange }) => {
+  const updateHole = (index: number, field: 'par' | 'handicap', value: string) => {
+    onChange(layout.map((hole, i) => i === index ? { ...hole, [field]: Number(value) } : hole));
+  };
+
+  // Yardage lives on each tee set rather than the hole
+  const updateYardage = (teeId: string, index: number, value: string) => {
+    onTeesChange(tees.map(tee => tee.id === teeId
+      ? { ...tee, yardages: tee.yardages.map((yards, i) => i === index ? Number(value) || 0 : yards) }
+      : tee
+    ));
+  };
+
+  const getYardage = (tee: TeeSet, from: number, to: number) =>
+    tee.yardages.slice(from, to).reduce((sum, yards) => sum + (yards || 0), 0);
+
+  const front = layout.slice(0, 9);
+  const back = layout.slice(9);
+
+  const renderTotalRow = (label: string, holes: CourseHole[], from: number, to: number) => (
+    <tr>
+      <td className="py-1 pr-4">{label}</td>
+      <td className="py-1 pr-4">{getLayoutPar(holes)}</td>
+      <td className="py-1 pr-4"></td>
+      {tees.map(tee => (
+        <td key={tee.id} className="py-1 pr-4">{getYardage(tee, from, to) || '-'}</td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="py-2 pr-4">Hole</th>
+            <th className="py-2 pr-4">Par</th>
+            <th className="py-2 pr-4">Stroke Index</th>
+            {tees.map(tee => (
+              <th key={tee.id} className="py-2 pr-4">
+                <span className="inline-flex items-center">
+                  <span
+                    className="w-3 h-3 rounded-full border border-gray-300 mr-1"
+                    style={{ backgroundColor: tee.color.toLowerCase() }}
+                  ></span>
+                  {tee.name || 'Tee'} yds
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {layout.map((hole, i) => (
+            <tr key={hole.number}>
+              <td className="py-1 pr-4 font-medium text-gray-700">{hole.number}</td>
+              <td className="py-1 pr-4">
+                <select
+                  value={hole.par}
+                  onChange={(e) => updateHole(i, 'par', e.target.value)}
+                  className="block w-20 py-1 text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                  aria-label={`Par for hole ${hole.number}`}
+                >
+                  {[3, 4, 5, 6].map(par => (
+                    <option key={par} value={par}>{par}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-1 pr-4">
+                <input
+                  type="number"
+                  min="1"
+                  max={layout.length}
+                  value={hole.handicap || ''}
+                  onChange={(e) => updateHole(i, 'handicap', e.target.value)}
+                  className="block w-20 py-1 text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                  aria-label={`Stroke index for hole ${hole.number}`}
+                />
+              </td>
+              {tees.map(tee => (
+                <td key={tee.id} className="py-1 pr-4">
+                  <input
+                    type="number"
+                    min="0"
+                    max="800"
+                    value={tee.yardages[i] || ''}
+                    onChange={(e) => updateYardage(tee.id, i, e.target.value)}
+                    className="block w-24 py-1 text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                    placeholder="-"
+                    aria-label={`${tee.name} yardage for hole ${hole.number}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t-2 border-gray-200 text-gray-900 font-semibold">
+          {back.length > 0 && (
+            <>
+              {renderTotalRow('Out', front, 0, 9)}
+              {renderTotalRow('In', back, 9, layout.length)}
+            </>
+          )}
+          {renderTotalRow('Total', layout, 0, layout.length)}
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default HoleLayoutEditor;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { SkinsHole } from '../utils/firebase';
+import { describeSkinsHole, getSkinsHoleColor } from '../utils/skins';
+
+interface HoleSideGamesProps {
+  holeIndex: number;
+  getPlayerName: (uid: string) => string;
+  skinsHole?: SkinsHole;
+  wolf?: string; // Only set when playing Wolf
+  players: string[];
+  wolfDecision: string;
+  onWolfDecisionChange: (value: string) => void;
+  pressed: boolean;
+  onPressToggle?: () => void; // Only set on holes a manual press can start
+}
+
+// The side-game notes and controls under a hole's label on the scorecard
+const HoleSideGames: React.FC<HoleSideGamesProps> = ({
+  holeIndex,
+  getPlayerName,
+  skinsHole,
+  wolf,
+  players,
+  wolfDecision,
+  onWolfDecisionChange,
+  pressed,
+  onPressToggle
+}) => {
+  return (
+    <>
+      {skinsHole && (
+        <span className={`block text-xs font-normal ${getSkinsHoleColor(skinsHole)}`}>
+          {describeSkinsHole(skinsHole, getPlayerName(skinsHole.winner || ''))}
+        </span>
+      )}
+      {wolf && (
+        <div className="mt-1">
+          <span className="block text-xs font-normal text-gray-600">
+            🐺 {getPlayerName(wolf)}
+          </span>
+          <select
+            value={wolfDecision}
+            onChange={(e) => onWolfDecisionChange(e.target.value)}
+            className="mt-0.5 w-full py-0.5 pl-1 pr-6 text-xs border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+            aria-label={`Wolf decision for hole ${holeIndex + 1}`}
+          >
+            <option value="">Decide…</option>
+            {players
+              .filter(uid => uid !== wolf)
+              .map(uid => (
+                <option key={uid} value={uid}>With {getPlayerName(uid)}</option>
+              ))}
+            <option value="lone">Lone wolf</option>
+            <option value="blind">Blind wolf</option>
+          </select>
+        </div>
+      )}
+      {onPressToggle && (
+        <button
+          type="button"
+          onClick={onPressToggle}
+          className={`mt-1 px-2 py-0.5 text-xs font-medium rounded ${
+            pressed
+              ? 'bg-amber-500 text-white'
+              : 'bg-white border border-amber-300 text-amber-700 hover:bg-amber-50'
+          }`}
+        >
+          {pressed ? 'Pressed' : 'Press'}
+        </button>
+      )}
+    </>
+  );
+};
+
+export default HoleSideGames;
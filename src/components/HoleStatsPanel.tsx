@@ -0,0 +1,114 @@
+import React from 'react';
+import { FairwayResult, HoleDetail } from '../utils/firebase';
+import { cycleSave, isGreenInRegulation } from '../utils/holeStats';
+
+interface HoleStatsPanelProps {
+  detail: HoleDetail;
+  score: number;
+  par: number;
+  onChange: (detail: HoleDetail) => void;
+}
+
+const FAIRWAY_BUTTONS: { value: FairwayResult; label: string; title: string }[] = [
+  { value: 'left', label: '←', title: 'Missed left' },
+  { value: 'hit', label: 'FW', title: 'Fairway hit' },
+  { value: 'right', label: '→', title: 'Missed right' }
+];
+
+const chipClass = (active: boolean, activeClass = 'bg-golf-green-600 text-white') =>
+  `px-1 py-0.5 text-[10px] font-semibold rounded transition-colors ${
+    active ? activeClass : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+  }`;
+
+// Made shows green, missed red, no chance grey
+const saveClass = (value?: boolean) =>
+  chipClass(value !== undefined, value ? 'bg-golf-green-600 text-white' : 'bg-red-500 text-white');
+
+const saveTitle = (label: string, value?: boolean) =>
+  `${label}: ${value === undefined ? 'no chance' : value ? 'made' : 'missed'} (tap to change)`;
+
+// Quick per-hole stats under a player's score: putts, fairway, penalties,
+// up-and-down and sand save. GIR is shown but derived, never entered.
+const HoleStatsPanel: React.FC<HoleStatsPanelProps> = ({ detail, score, par, onChange }) => {
+  const update = (changes: Partial<HoleDetail>) => onChange({ ...detail, ...changes });
+  const step = (value: number | undefined, delta: number) => {
+    const next = (value || 0) + delta;
+    return next < 0 ? undefined : next;
+  };
+
+  return (
+    <div className="mt-1 space-y-0.5 w-[5.5rem] text-center">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => update({ putts: step(detail.putts, -1) })}
+          className={chipClass(false)}
+          aria-label="One fewer putt"
+        >
+          −
+        </button>
+        <span className="text-[10px] font-semibold text-gray-700">
+          {detail.putts === undefined ? 'Putts' : `${detail.putts} putt${detail.putts === 1 ? '' : 's'}`}
+        </span>
+        <button
+          type="button"
+          onClick={() => update({ putts: (detail.putts ?? -1) + 1 })}
+          className={chipClass(false)}
+          aria-label="One more putt"
+        >
+          +
+        </button>
+      </div>
+
+      {par >= 4 && (
+        <div className="flex justify-center gap-0.5">
+          {FAIRWAY_BUTTONS.map(button => (
+            <button
+              key={button.value}
+              type="button"
+              onClick={() => update({ fairway: detail.fairway === button.value ? undefined : button.value })}
+              title={button.title}
+              aria-pressed={detail.fairway === button.value}
+              className={chipClass(detail.fairway === button.value)}
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center gap-0.5">
+        <button
+          type="button"
+          onClick={() => update({ penalties: detail.penalties ? (detail.penalties + 1) % 5 || undefined : 1 })}
+          title="Penalty strokes (tap to add, clears after 4)"
+          className={chipClass(!!detail.penalties, 'bg-red-500 text-white')}
+        >
+          {detail.penalties ? `P${detail.penalties}` : 'Pen'}
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ upAndDown: cycleSave(detail.upAndDown) })}
+          title={saveTitle('Up and down', detail.upAndDown)}
+          className={saveClass(detail.upAndDown)}
+        >
+          U&D
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ sandSave: cycleSave(detail.sandSave) })}
+          title={saveTitle('Sand save', detail.sandSave)}
+          className={saveClass(detail.sandSave)}
+        >
+          Sand
+        </button>
+      </div>
+
+      {isGreenInRegulation(score, par, detail.putts) && (
+        <span className="block text-[10px] font-semibold text-golf-green-600">GIR</span>
+      )}
+    </div>
+  );
+};
+
+export default HoleStatsPanel;
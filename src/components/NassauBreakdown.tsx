@@ -0,0 +1,65 @@
+import React from 'react';
+import { NassauResult } from '../utils/firebase';
+import { formatBetMargin, getBetAmount } from '../utils/nassau';
+import { formatMoney, formatStake, getMoneyColor } from '../utils/money';
+
+interface NassauBreakdownProps {
+  nassau: NassauResult;
+  getPlayerName: (uid: string) => string;
+}
+
+const NassauBreakdown: React.FC<NassauBreakdownProps> = ({ nassau, getPlayerName }) => {
+  const sideName = (side: string[]) => side.map(getPlayerName).join(' & ');
+  const sideANames = sideName(nassau.sideA);
+  const sideBNames = sideName(nassau.sideB);
+
+  const getBetLeader = (lead: number) => {
+    if (lead === 0) return '';
+    return lead > 0 ? sideANames : sideBNames;
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">
+        Nassau · {formatStake(nassau.stake)} · {nassau.scoring === 'match' ? 'Match play' : 'Stroke play'}
+        {' '}· {nassau.mode === 'net' ? 'Net' : 'Gross'}
+        <span className="ml-2 font-normal text-gray-500">{sideANames} vs {sideBNames}</span>
+      </h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-1 pr-4 font-medium">Bet</th>
+            <th className="py-1 pr-4 font-medium">Holes</th>
+            <th className="py-1 pr-4 font-medium">Result</th>
+            <th className="py-1 text-right font-medium">{sideANames}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {nassau.bets.map(bet => (
+            <tr key={`${bet.name}-${bet.startHole}`}>
+              <td className="py-1 pr-4 text-gray-900">{bet.name}</td>
+              <td className="py-1 pr-4 text-gray-500">{bet.startHole + 1}–{bet.endHole}</td>
+              <td className="py-1 pr-4 text-gray-700">
+                {getBetLeader(bet.lead)} {formatBetMargin(bet, nassau.scoring)}
+                {!bet.complete && <span className="ml-1 text-xs text-gray-400">(in progress)</span>}
+              </td>
+              <td className={`py-1 text-right font-medium ${getMoneyColor(getBetAmount(bet, nassau.stake))}`}>
+                {formatMoney(getBetAmount(bet, nassau.stake))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm">
+        {nassau.settlement.map(({ uid, amount }) => (
+          <span key={uid} className="text-gray-700">
+            {getPlayerName(uid)}:{' '}
+            <span className={`font-medium ${getMoneyColor(amount)}`}>{formatMoney(amount)}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NassauBreakdown;
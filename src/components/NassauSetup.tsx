@@ -0,0 +1,96 @@
+import React from 'react';
+import { NassauScoring, PressMode, ScoringMode } from '../utils/firebase';
+import { NassauOptions } from '../utils/nassau';
+
+interface NassauSetupProps {
+  enabled: boolean;
+  options: NassauOptions;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionChange: <K extends keyof NassauOptions>(key: K, value: NassauOptions[K]) => void;
+}
+
+const NassauSetup: React.FC<NassauSetupProps> = ({ enabled, options, onEnabledChange, onOptionChange }) => {
+  return (
+    <div>
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+        />
+        <span className="text-sm font-medium text-gray-900">Nassau</span>
+        {enabled && (
+          <span className="text-xs text-gray-500">Pick sides on the scorecard</span>
+        )}
+      </label>
+
+      {enabled && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div>
+            <label htmlFor="nassau-stake" className="block text-sm font-medium text-gray-700 mb-2">
+              Stake per Bet ($)
+            </label>
+            <input
+              id="nassau-stake"
+              type="number"
+              min="0"
+              step="1"
+              value={options.stake}
+              onChange={(e) => onOptionChange('stake', Math.max(0, parseFloat(e.target.value) || 0))}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="nassau-scoring" className="block text-sm font-medium text-gray-700 mb-2">
+              Bets Scored As
+            </label>
+            <select
+              id="nassau-scoring"
+              value={options.scoring}
+              onChange={(e) => onOptionChange('scoring', e.target.value as NassauScoring)}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="match">Match Play</option>
+              <option value="stroke">Stroke Play</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="nassau-mode" className="block text-sm font-medium text-gray-700 mb-2">
+              Handicaps
+            </label>
+            <select
+              id="nassau-mode"
+              value={options.mode}
+              onChange={(e) => onOptionChange('mode', e.target.value as ScoringMode)}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="gross">Gross</option>
+              <option value="net">Net (strokes off the low man)</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="nassau-presses" className="block text-sm font-medium text-gray-700 mb-2">
+              Presses
+            </label>
+            <select
+              id="nassau-presses"
+              value={options.presses}
+              onChange={(e) => onOptionChange('presses', e.target.value as PressMode)}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="none">No presses</option>
+              <option value="manual">Manual</option>
+              <option value="auto">Automatic at 2 down</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NassauSetup;
@@ -0,0 +1,63 @@
+import React from 'react';
+import ScoreInput from './ScoreInput';
+import { Standing } from '../utils/formats';
+
+interface PlayoffCardProps {
+  standings: Standing[]; // Everyone tied for the lead
+  holeCount: number;
+  scores: { [id: string]: number[] };
+  status: string;
+  getSideName: (players: string[]) => string;
+  onScoreChange: (id: string, hole: number, score: number) => void;
+  onAddHole: () => void;
+}
+
+const PlayoffCard: React.FC<PlayoffCardProps> = ({
+  standings,
+  holeCount,
+  scores,
+  status,
+  getSideName,
+  onScoreChange,
+  onAddHole
+}) => {
+  return (
+    <div className="card hover:shadow-lg transition-all duration-300">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Playoff</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Sudden death: anyone beaten on a playoff hole drops out.
+      </p>
+      <div className="overflow-x-auto">
+        <div className="min-w-max space-y-3">
+          {standings.map(standing => (
+            <div key={standing.id} className="flex items-center space-x-4">
+              <div className="w-32 text-sm font-medium text-gray-900 truncate">
+                {standing.name || getSideName(standing.players)}
+              </div>
+              {Array.from({ length: holeCount }, (_, i) => (
+                <ScoreInput
+                  key={i}
+                  value={scores[standing.id]?.[i] || 0}
+                  onChange={(score) => onScoreChange(standing.id, i, score)}
+                  holeNumber={i + 1}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between mt-4">
+        <button
+          type="button"
+          onClick={onAddHole}
+          className="text-sm text-green-600 hover:text-green-800 font-medium"
+        >
+          Add playoff hole
+        </button>
+        <span className="text-sm font-medium text-gray-700">{status}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PlayoffCard;
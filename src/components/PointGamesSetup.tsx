@@ -0,0 +1,66 @@
+import React from 'react';
+import { PointGamesOptions } from '../utils/pointGames';
+
+interface PointGamesSetupProps {
+  enabled: boolean;
+  options: PointGamesOptions;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionChange: <K extends keyof PointGamesOptions>(key: K, value: PointGamesOptions[K]) => void;
+}
+
+const PointGamesSetup: React.FC<PointGamesSetupProps> = ({ enabled, options, onEnabledChange, onOptionChange }) => {
+  return (
+    <div>
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+        />
+        <span className="text-sm font-medium text-gray-900">Bingo Bango Bongo / Dots</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={options.bingoBangoBongo}
+              onChange={(e) => onOptionChange('bingoBangoBongo', e.target.checked)}
+              className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            <span className="text-sm text-gray-700">Bingo Bango Bongo</span>
+          </label>
+
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={options.dots}
+              onChange={(e) => onOptionChange('dots', e.target.checked)}
+              className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            <span className="text-sm text-gray-700">Dots (sandies, greenies, barkies, polies)</span>
+          </label>
+
+          <div>
+            <label htmlFor="point-value" className="block text-sm font-medium text-gray-700 mb-2">
+              Value per Point ($, optional)
+            </label>
+            <input
+              id="point-value"
+              type="number"
+              min="0"
+              step="0.5"
+              value={options.value}
+              onChange={(e) => onOptionChange('value', Math.max(0, parseFloat(e.target.value) || 0))}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PointGamesSetup;
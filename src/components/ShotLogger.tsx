@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Shot, ShotLie, ShotResult } from '../utils/firebase';
+import {
+  CLUBS,
+  SHOT_LIES,
+  SHOT_RESULTS,
+  SHOT_RESULT_OPTIONS,
+  describeShot,
+  getNextLie,
+  getShotScore,
+  isHoleFinished,
+  suggestClub
+} from '../utils/shots';
+
+interface ShotLoggerProps {
+  playerName: string;
+  holeNumber: number;
+  par: number;
+  shots: Shot[];
+  onChange: (shots: Shot[]) => void;
+  onClose: () => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1.5 text-xs font-semibold rounded-lg transition-colors ${
+    active ? 'bg-golf-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+// Bottom sheet for logging a hole shot by shot: the club and lie are
+// pre-filled from the last shot, so most shots are a single tap on the result
+const ShotLogger: React.FC<ShotLoggerProps> = ({ playerName, holeNumber, par, shots, onChange, onClose }) => {
+  const [lie, setLie] = useState<ShotLie>(getNextLie(shots));
+  const [club, setClub] = useState(suggestClub(getNextLie(shots), par, shots));
+  const [distance, setDistance] = useState('');
+  const finished = isHoleFinished(shots);
+
+  const prepareNext = (next: Shot[]) => {
+    const nextLie = getNextLie(next);
+    setLie(nextLie);
+    setClub(suggestClub(nextLie, par, next));
+    setDistance('');
+  };
+
+  const handleLieChange = (next: ShotLie) => {
+    setLie(next);
+    setClub(suggestClub(next, par, shots));
+  };
+
+  const handleResult = (result: ShotResult) => {
+    const yards = parseInt(distance);
+    const next = [...shots, { club, lie, result, ...(yards > 0 ? { distance: yards } : {}) }];
+    onChange(next);
+    prepareNext(next);
+  };
+
+  const handleUndo = () => {
+    const next = shots.slice(0, -1);
+    onChange(next);
+    prepareNext(next);
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 bg-white border-t border-gray-200 shadow-2xl">
+      <div className="max-w-3xl mx-auto p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-gray-900">
+              {playerName} · Hole {holeNumber}
+            </h3>
+            <p className="text-xs text-gray-500">
+              Par {par} · {getShotScore(shots)} stroke{getShotScore(shots) === 1 ? '' : 's'}
+              {finished && ' · Holed'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-golf-green-600 rounded-lg hover:bg-golf-green-700"
+          >
+            Done
+          </button>
+        </div>
+
+        {shots.length > 0 && (
+          <ol className="flex flex-wrap gap-1 text-xs text-gray-700">
+            {shots.map((shot, i) => (
+              <li key={i} className="px-2 py-1 bg-gray-50 rounded">
+                {i + 1}. {describeShot(shot)}
+              </li>
+            ))}
+            <li>
+              <button
+                type="button"
+                onClick={handleUndo}
+                className="px-2 py-1 text-red-600 hover:text-red-800 font-medium"
+              >
+                Undo
+              </button>
+            </li>
+          </ol>
+        )}
+
+        {!finished && (
+          <>
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Lie">
+              {SHOT_LIES.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleLieChange(option.value)}
+                  aria-pressed={lie === option.value}
+                  className={chipClass(lie === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <input
+                type="number"
+                min="1"
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+                placeholder="Yards"
+                aria-label="Distance in yards"
+                className="w-20 px-2 py-1 text-xs border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Club">
+              {CLUBS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setClub(option)}
+                  aria-pressed={club === option}
+                  className={chipClass(club === option)}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-4 sm:grid-cols-7 gap-1" role="group" aria-label="Result">
+              {SHOT_RESULT_OPTIONS.map(result => (
+                <button
+                  key={result}
+                  type="button"
+                  onClick={() => handleResult(result)}
+                  className={`px-2 py-2 text-sm font-semibold rounded-lg border transition-colors ${
+                    SHOT_RESULTS[result].penalty
+                      ? 'border-red-200 text-red-700 hover:bg-red-50'
+                      : 'border-green-200 text-green-800 hover:bg-green-50'
+                  }`}
+                >
+                  {SHOT_RESULTS[result].label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShotLogger;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ScoringMode } from '../utils/firebase';
+import { SkinsOptions } from '../utils/skins';
+
+interface SkinsSetupProps {
+  enabled: boolean;
+  options: SkinsOptions;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionChange: <K extends keyof SkinsOptions>(key: K, value: SkinsOptions[K]) => void;
+}
+
+const SkinsSetup: React.FC<SkinsSetupProps> = ({ enabled, options, onEnabledChange, onOptionChange }) => {
+  return (
+    <div>
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+        />
+        <span className="text-sm font-medium text-gray-900">Skins</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div>
+            <label htmlFor="skins-mode" className="block text-sm font-medium text-gray-700 mb-2">
+              Skins Scoring
+            </label>
+            <select
+              id="skins-mode"
+              value={options.mode}
+              onChange={(e) => onOptionChange('mode', e.target.value as ScoringMode)}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="gross">Gross</option>
+              <option value="net">Net</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="skins-value" className="block text-sm font-medium text-gray-700 mb-2">
+              Value per Skin ($)
+            </label>
+            <input
+              id="skins-value"
+              type="number"
+              min="0"
+              step="0.5"
+              value={options.value}
+              onChange={(e) => onOptionChange('value', Math.max(0, parseFloat(e.target.value) || 0))}
+              className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent w-full"
+            />
+          </div>
+
+          <label className="flex items-center space-x-3 md:mt-8">
+            <input
+              type="checkbox"
+              checked={options.carryovers}
+              onChange={(e) => onOptionChange('carryovers', e.target.checked)}
+              className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            <span className="text-sm text-gray-700">Carry over tied holes</span>
+          </label>
+
+          <label className="flex items-center space-x-3 md:mt-8">
+            <input
+              type="checkbox"
+              checked={options.validation}
+              onChange={(e) => onOptionChange('validation', e.target.checked)}
+              className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            <span className="text-sm text-gray-700">Validate (tie or win the next hole to keep a skin)</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkinsSetup;
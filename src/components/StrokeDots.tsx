@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface StrokeDotsProps {
+  strokes: number;
+}
+
+// One dot per handicap stroke received on a hole. A plus handicap gives
+// strokes back instead, shown as a "+".
+const StrokeDots: React.FC<StrokeDotsProps> = ({ strokes }) => {
+  if (strokes === 0) return null;
+
+  const count = Math.abs(strokes);
+  const label = `${strokes > 0 ? 'Receives' : 'Gives back'} ${count} stroke${count === 1 ? '' : 's'}`;
+
+  return (
+    <span className="inline-flex items-center gap-0.5" title={label} aria-label={label}>
+      {Array.from({ length: count }, (_, i) =>
+        strokes > 0 ? (
+          <span key={i} className="w-1.5 h-1.5 rounded-full bg-blue-600" />
+        ) : (
+          <span key={i} className="text-[10px] leading-none font-bold text-blue-600">+</span>
+        )
+      )}
+    </span>
+  );
+};
+
+export default StrokeDots;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { TeamDraft } from '../utils/teams';
+
+interface TeamBuilderProps {
+  teams: TeamDraft[];
+  teamCount: number;
+  teamNames: { [teamId: string]: string };
+  getPlayerName: (uid: string) => string;
+  onTeamCountChange: (count: number) => void;
+  onTeamNameChange: (teamId: string, name: string) => void;
+  onPlayerTeamChange: (uid: string, teamId: string) => void;
+  // Scramble only: the team handicap allowance for each player, lowest first
+  scramblePercents?: number[];
+  largestTeam: number;
+  onScramblePercentChange: (position: number, value: number) => void;
+  onResetScramblePercents: () => void;
+}
+
+const TeamBuilder: React.FC<TeamBuilderProps> = ({
+  teams,
+  teamCount,
+  teamNames,
+  getPlayerName,
+  onTeamCountChange,
+  onTeamNameChange,
+  onPlayerTeamChange,
+  scramblePercents,
+  largestTeam,
+  onScramblePercentChange,
+  onResetScramblePercents
+}) => {
+  return (
+    <div className="card hover:shadow-lg transition-all duration-300">
+      <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+        <span className="mr-2">🤝</span>
+        Teams
+      </h2>
+
+      <div className="mb-6 max-w-xs">
+        <label htmlFor="team-count" className="block text-sm font-medium text-gray-700 mb-2">
+          Number of Teams
+        </label>
+        <select
+          id="team-count"
+          value={teamCount}
+          onChange={(e) => onTeamCountChange(parseInt(e.target.value))}
+          className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {[2, 3, 4].map(count => (
+            <option key={count} value={count}>{count} teams</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {teams.map(team => (
+          <div key={team.id} className="p-4 rounded-xl border-2 border-gray-200">
+            <input
+              type="text"
+              value={teamNames[team.id] ?? ''}
+              onChange={(e) => onTeamNameChange(team.id, e.target.value)}
+              placeholder={team.name}
+              className="input-field w-full mb-3 text-sm font-semibold"
+              aria-label={`Name for ${team.name}`}
+            />
+            {team.players.length === 0 ? (
+              <p className="text-xs text-gray-400">No players yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {team.players.map(uid => (
+                  <li key={uid} className="flex items-center justify-between space-x-2">
+                    <span className="text-sm text-gray-900 truncate">{getPlayerName(uid)}</span>
+                    <select
+                      value={team.id}
+                      onChange={(e) => onPlayerTeamChange(uid, e.target.value)}
+                      className="py-0.5 pl-2 pr-7 text-xs border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                      aria-label={`Team for ${getPlayerName(uid)}`}
+                    >
+                      {teams.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {scramblePercents && (
+        <div className="mt-6">
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Team Handicap (% of each course handicap, lowest first)
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            {Array.from({ length: largestTeam }, (_, i) => (
+              <div key={i}>
+                <label htmlFor={`scramble-percent-${i}`} className="block text-xs text-gray-500 mb-1">
+                  Player {i + 1}
+                </label>
+                <input
+                  id={`scramble-percent-${i}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={scramblePercents[i] || 0}
+                  onChange={(e) => onScramblePercentChange(i, Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="input-field w-20"
+                />
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={onResetScramblePercents}
+              className="text-sm text-green-600 hover:text-green-800 font-medium pb-2"
+            >
+              Use recommended
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamBuilder;
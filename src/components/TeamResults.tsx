@@ -0,0 +1,46 @@
+import React from 'react';
+import { RoundTeam, ScoringMode } from '../utils/firebase';
+
+interface TeamResultsProps {
+  teams: RoundTeam[];
+  winningTeams?: string[];
+  mode: ScoringMode;
+  getPlayerName: (uid: string) => string;
+}
+
+// Team standings, lowest score first
+const TeamResults: React.FC<TeamResultsProps> = ({ teams, winningTeams = [], mode, getPlayerName }) => {
+  const total = (team: RoundTeam) => (mode === 'net' ? team.net : team.gross);
+  const standings = [...teams].sort((a, b) => total(a) - total(b));
+
+  return (
+    <div className="space-y-2">
+      {standings.map(team => (
+        <div
+          key={team.id}
+          className={`flex items-center justify-between px-3 py-2 rounded-lg ${
+            winningTeams.includes(team.id) ? 'bg-green-50 border border-green-200' : 'bg-gray-50'
+          }`}
+        >
+          <div className="min-w-0">
+            <span className="block text-sm font-semibold text-gray-900">
+              {team.name}
+              {winningTeams.includes(team.id) && <span className="ml-2">🏆</span>}
+            </span>
+            <span className="block text-xs text-gray-500 truncate">
+              {team.players.map(getPlayerName).join(', ')}
+            </span>
+          </div>
+          <div className="text-right">
+            <span className="block text-lg font-bold text-gray-900">{total(team)}</span>
+            <span className="block text-xs text-gray-500">
+              {mode === 'net' ? `Gross ${team.gross}` : `Net ${team.net}`}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TeamResults;
@@ -0,0 +1,85 @@
+import React from 'react';
+import ScoreInput from './ScoreInput';
+import { RoundTeam } from '../utils/firebase';
+import { formatToPar, getScoreColor, getScoreLabel } from '../utils/scorecard';
+
+interface TeamScorecardProps {
+  teams: RoundTeam[];
+  holePars: number[];
+  getPlayerName: (uid: string) => string;
+  showNet?: boolean;
+  // Editable when provided, otherwise a read-only card for history
+  onScoreChange?: (teamId: string, holeIndex: number, score: number) => void;
+}
+
+// One column per team for formats where the team posts a single score per hole
+const TeamScorecard: React.FC<TeamScorecardProps> = ({ teams, holePars, getPlayerName, showNet = false, onScoreChange }) => {
+  const getToPar = (team: RoundTeam) =>
+    team.holes.reduce((sum, score, i) => sum + (score ? score - holePars[i] : 0), 0);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-max">
+        <div className="flex items-center space-x-4 mb-4">
+          <div className="w-32"></div>
+          {teams.map(team => (
+            <div key={team.id} className="w-28 text-center">
+              <span className="block text-sm font-medium text-gray-900 truncate">{team.name}</span>
+              <span className="block text-xs text-gray-500 truncate">
+                {team.players.map(getPlayerName).join(', ')}
+              </span>
+              {showNet && (
+                <span className="block text-xs text-gray-500">Team handicap {team.handicap}</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {holePars.map((par, i) => (
+            <div key={i} className="flex items-center space-x-4">
+              <div className="w-32 text-sm text-gray-600">
+                Hole {i + 1}
+                <span className="ml-2 text-xs text-gray-400">Par {par}</span>
+              </div>
+              {teams.map(team => (
+                <div key={team.id} className="w-28 flex justify-center">
+                  {onScoreChange ? (
+                    <ScoreInput
+                      value={team.holes[i] || 0}
+                      onChange={(score) => onScoreChange(team.id, i, score)}
+                      holeNumber={i + 1}
+                      par={par}
+                    />
+                  ) : (
+                    <div
+                      className={`w-12 h-12 flex items-center justify-center text-sm font-medium border rounded-lg ${getScoreColor(team.holes[i] || 0, par)}`}
+                      title={getScoreLabel(team.holes[i] || 0, par)}
+                    >
+                      {team.holes[i] || '-'}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-4 mt-4 pt-4 border-t border-gray-200">
+          <div className="w-32 text-sm font-bold text-gray-900">Total</div>
+          {teams.map(team => (
+            <div key={team.id} className="w-28 text-center text-lg font-bold text-golf-green-600">
+              {team.gross}
+              <span className="block text-xs font-medium text-gray-500">{formatToPar(getToPar(team))}</span>
+              {showNet && (
+                <span className="block text-xs font-medium text-blue-600">Net {team.net}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamScorecard;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { TeeSet } from '../utils/firebase';
+import { TEE_COLORS, createTeeSet } from '../utils/scorecard';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TeeSetEditorProps {
+  tees: TeeSet[];
+  holeCount: number;
+  onChange: (tees: TeeSet[]) => void;
+}
+
+const TeeSetEditor: React.FC<TeeSetEditorProps> = ({ tees, holeCount, onChange }) => {
+  const updateTee = (id: string, updates: Partial<TeeSet>) => {
+    onChange(tees.map(tee => tee.id === id ? { ...tee, ...updates } : tee));
+  };
+
+  const handleAdd = () => {
+    // Suggest the next colour that isn't used yet
+    const color = TEE_COLORS.find(c => !tees.some(tee => tee.color === c)) || 'White';
+    onChange([...tees, createTeeSet(holeCount, color)]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(tees.filter(tee => tee.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {tees.map(tee => (
+        <div key={tee.id} className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end p-3 bg-gray-50 rounded-md">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Name</label>
+            <input
+              type="text"
+              value={tee.name}
+              onChange={(e) => updateTee(tee.id, { name: e.target.value })}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+              placeholder="e.g., Blue"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Colour</label>
+            <select
+              value={tee.color}
+              onChange={(e) => updateTee(tee.id, { color: e.target.value })}
+              className="mt-1 block w-full py-2 text-base border-gray-300 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm rounded-md"
+            >
+              {TEE_COLORS.map(color => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Course Rating</label>
+            <input
+              type="number"
+              min="25"
+              max="90"
+              step="0.1"
+              value={tee.rating || ''}
+              onChange={(e) => updateTee(tee.id, { rating: Number(e.target.value) || 0 })}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+              placeholder="e.g., 72.5"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Slope Rating</label>
+            <input
+              type="number"
+              min="55"
+              max="155"
+              value={tee.slope || ''}
+              onChange={(e) => updateTee(tee.id, { slope: Number(e.target.value) || 0 })}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+              placeholder="e.g., 135"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => handleRemove(tee.id)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-md"
+              aria-label={`Remove ${tee.name} tees`}
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+      >
+        <PlusIcon className="-ml-1 mr-1 h-4 w-4" />
+        Add Tee Set
+      </button>
+    </div>
+  );
+};
+
+export default TeeSetEditor;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ScoringMode } from '../utils/firebase';
+
+interface WolfSetupProps {
+  enabled: boolean;
+  mode: ScoringMode;
+  onEnabledChange: (enabled: boolean) => void;
+  onModeChange: (mode: ScoringMode) => void;
+}
+
+const WolfSetup: React.FC<WolfSetupProps> = ({ enabled, mode, onEnabledChange, onModeChange }) => {
+  return (
+    <div>
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+        />
+        <span className="text-sm font-medium text-gray-900">Wolf</span>
+        {enabled && (
+          <span className="text-xs text-gray-500">
+            Four players; tee order follows the order you selected them
+          </span>
+        )}
+      </label>
+
+      {enabled && (
+        <div className="mt-4 max-w-xs">
+          <label htmlFor="wolf-mode" className="block text-sm font-medium text-gray-700 mb-2">
+            Wolf Scoring
+          </label>
+          <select
+            id="wolf-mode"
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as ScoringMode)}
+            className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="gross">Gross</option>
+            <option value="net">Net (strokes off the low man)</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WolfSetup;
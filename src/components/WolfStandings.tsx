@@ -0,0 +1,32 @@
+import React from 'react';
+import { WolfResult } from '../utils/firebase';
+
+interface WolfStandingsProps {
+  wolf: WolfResult;
+  getPlayerName: (uid: string) => string;
+}
+
+const WolfStandings: React.FC<WolfStandingsProps> = ({ wolf, getPlayerName }) => {
+  const standings = [...wolf.standings].sort((a, b) => b.points - a.points);
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">
+        Wolf · {wolf.mode === 'net' ? 'Net' : 'Gross'}
+        <span className="ml-2 font-normal text-gray-500">
+          Tee order: {wolf.order.map(getPlayerName).join(', ')}
+        </span>
+      </h4>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+        {standings.map(({ uid, points }, i) => (
+          <span key={uid} className="text-gray-700">
+            {i === 0 && points > 0 && <span className="mr-1">🐺</span>}
+            {getPlayerName(uid)}: <span className="font-medium text-gray-900">{points} pts</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WolfStandings;
@@ -3,6 +3,7 @@ import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useCourses } from '../contexts/CourseContext';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { getCourseTees, getTeeYardage } from '../utils/scorecard';
 import { 
   MapPinIcon, 
   PencilIcon, 
@@ -153,8 +154,10 @@ const CourseDetailPage: React.FC = () => {
     }
   };
 
+  const tees = getCourseTees(currentCourse);
+
   const handleStartRound = () => {
-    navigate(`/rounds/new?courseId=${courseId}`);
+    navigate(`/new-round?courseId=${courseId}`);
   };
 
   if (loading && !currentCourse) {
@@ -311,7 +314,7 @@ const CourseDetailPage: React.FC = () => {
                       </div>
                     </div>
 
-                    {currentCourse.rating && (
+                    {tees.length === 0 && currentCourse.rating && (
                       <div className="flex items-start">
                         <div className="flex-shrink-0 h-10 w-10 rounded-full bg-green-100 flex items-center justify-center">
                           <StarIcon className="h-5 w-5 text-green-600" />
@@ -323,7 +326,7 @@ const CourseDetailPage: React.FC = () => {
                       </div>
                     )}
 
-                    {currentCourse.slope && (
+                    {tees.length === 0 && currentCourse.slope && (
                       <div className="flex items-start">
                         <div className="flex-shrink-0 h-10 w-10 rounded-full bg-green-100 flex items-center justify-center">
                           <span className="text-green-600 font-medium">{currentCourse.slope}</span>
@@ -336,6 +339,80 @@ const CourseDetailPage: React.FC = () => {
                     )}
                   </div>
                 </div>
+
+                {/* Tee Sets */}
+                {tees.length > 0 && (
+                  <div className="mt-6">
+                    <h2 className="text-lg font-medium text-gray-900">Tees</h2>
+                    <table className="mt-4 min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="py-2 pr-4">Tee</th>
+                          <th className="py-2 pr-4">Rating</th>
+                          <th className="py-2 pr-4">Slope</th>
+                          <th className="py-2">Yards</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {tees.map(tee => (
+                          <tr key={tee.id}>
+                            <td className="py-2 pr-4">
+                              <span className="inline-flex items-center font-medium text-gray-900">
+                                <span
+                                  className="w-3 h-3 rounded-full border border-gray-300 mr-2"
+                                  style={{ backgroundColor: tee.color.toLowerCase() }}
+                                ></span>
+                                {tee.name}
+                              </span>
+                            </td>
+                            <td className="py-2 pr-4 text-gray-900">{tee.rating || '-'}</td>
+                            <td className="py-2 pr-4 text-gray-900">{tee.slope || '-'}</td>
+                            <td className="py-2 text-gray-900">{getTeeYardage(tee) || '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Scorecard */}
+                {currentCourse.holeLayout && currentCourse.holeLayout.length > 0 && (
+                  <div className="mt-6">
+                    <h2 className="text-lg font-medium text-gray-900">Scorecard</h2>
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="min-w-max text-sm text-center">
+                        <tbody className="divide-y divide-gray-100">
+                          <tr className="bg-gray-50 font-medium text-gray-700">
+                            <th className="py-2 px-3 text-left">Hole</th>
+                            {currentCourse.holeLayout.map(hole => (
+                              <td key={hole.number} className="py-2 px-2 w-10">{hole.number}</td>
+                            ))}
+                          </tr>
+                          {tees.map(tee => (
+                            <tr key={tee.id} className="text-gray-600">
+                              <th className="py-2 px-3 text-left font-medium">{tee.name}</th>
+                              {currentCourse.holeLayout!.map((hole, i) => (
+                                <td key={hole.number} className="py-2 px-2">{tee.yardages[i] || '-'}</td>
+                              ))}
+                            </tr>
+                          ))}
+                          <tr className="font-semibold text-gray-900">
+                            <th className="py-2 px-3 text-left">Par</th>
+                            {currentCourse.holeLayout.map(hole => (
+                              <td key={hole.number} className="py-2 px-2">{hole.par}</td>
+                            ))}
+                          </tr>
+                          <tr className="text-gray-500">
+                            <th className="py-2 px-3 text-left font-medium">Index</th>
+                            {currentCourse.holeLayout.map(hole => (
+                              <td key={hole.number} className="py-2 px-2">{hole.handicap}</td>
+                            ))}
+                          </tr>
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Right column - Amenities and Actions */}
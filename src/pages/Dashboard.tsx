@@ -2,12 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import Navigation from '../components/Navigation';
 import { useAuth } from '../contexts/AuthContext';
-import { getRounds, getAllUsers, Round, User } from '../utils/firebase';
+import { deleteRound, getInProgressRounds, getRounds, getAllUsers, Round, User } from '../utils/firebase';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { getWinnerLabel } from '../utils/formats';
+import { getHolesThru, getIndividualWinners } from '../utils/scoring';
+import { getRoundWinningTeams } from '../utils/teams';
+import { getLiveRoundScores } from '../utils/live';
 
 const Dashboard: React.FC = () => {
-  const { userProfile } = useAuth();
+  const { currentUser, userProfile } = useAuth();
   const [recentRounds, setRecentRounds] = useState<Round[]>([]);
+  const [inProgressRounds, setInProgressRounds] = useState<Round[]>([]);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -16,11 +21,13 @@ const Dashboard: React.FC = () => {
     const fetchData = async () => {
       try {
         setError(null);
-        const [rounds, users] = await Promise.all([
+        const [rounds, users, openRounds] = await Promise.all([
           getRounds(5),
-          getAllUsers()
+          getAllUsers(),
+          currentUser ? getInProgressRounds(currentUser.uid) : Promise.resolve([])
         ]);
         setRecentRounds(rounds);
+        setInProgressRounds(openRounds);
         setAllUsers(users);
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
@@ -31,7 +38,24 @@ const Dashboard: React.FC = () => {
     };
 
     fetchData();
-  }, [userProfile]);
+  }, [currentUser, userProfile]);
+
+  const handleDiscardRound = async (roundId: string) => {
+    if (!window.confirm('Discard this round in progress? Its scores will be lost.')) {
+      return;
+    }
+
+    try {
+      await deleteRound(roundId);
+      setInProgressRounds(prev => prev.filter(round => round.id !== roundId));
+    } catch (error) {
+      console.error('Error discarding round:', error);
+      setError('Failed to discard the round. Please try again.');
+    }
+  };
+
+  // Furthest anyone has got, since players can fall behind on entering scores
+  const getRoundThru = (round: Round) => Math.max(0, ...getLiveRoundScores(round).map(getHolesThru));
 
   const getLeaderboard = () => {
     return allUsers
@@ -129,6 +153,50 @@ const Dashboard: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Quick Actions */}
           <div className="lg:col-span-1 space-y-6">
+            {inProgressRounds.length > 0 && (
+              <div className="card hover:shadow-lg transition-all duration-300 border-2 border-green-200">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+                  <span className="mr-2">⛳</span>
+                  Round in Progress
+                </h2>
+                <div className="space-y-3">
+                  {inProgressRounds.map(round => (
+                    <div key={round.id} className="p-3 bg-gradient-to-r from-green-50 to-green-100 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-semibold text-gray-900">{round.courseName}</p>
+                          <p className="text-sm text-gray-600">
+                            {formatDate(round.date)} · {getRoundThru(round) > 0 ? `Thru ${getRoundThru(round)}` : 'Not started'}
+                          </p>
+                        </div>
+                        {/* Whoever started the round keeps the scorecard; everyone else scores their own card */}
+                        <Link
+                          to={round.createdBy === currentUser?.uid ? `/new-round?roundId=${round.id}` : `/rounds/${round.id}/score`}
+                          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-semibold rounded-lg transition-colors"
+                        >
+                          {round.createdBy === currentUser?.uid ? 'Resume' : 'Join'}
+                        </Link>
+                      </div>
+                      <div className="mt-2 flex items-center space-x-4">
+                        <Link to={`/live/${round.id}`} className="text-xs text-green-600 hover:text-green-800 font-medium">
+                          Leaderboard
+                        </Link>
+                        {round.createdBy === currentUser?.uid && (
+                          <button
+                            type="button"
+                            onClick={() => handleDiscardRound(round.id!)}
+                            className="text-xs text-red-600 hover:text-red-800 font-medium"
+                          >
+                            Discard
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="card hover:shadow-lg transition-all duration-300 transform hover:-translate-y-1">
               <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
                 <span className="mr-2">⚡</span>
@@ -260,7 +328,9 @@ const Dashboard: React.FC = () => {
                         <div className="flex-1">
                           <div className="flex items-center space-x-3 mb-2">
                             <h3 className="font-bold text-gray-900 text-lg">
-                              {typeof round.course === 'string' ? round.course : round.course?.name || 'Unknown Course'}
+                              <Link to={`/rounds/${round.id}`} className="hover:text-green-700">
+                                {typeof round.course === 'string' ? round.course : round.course?.name || 'Unknown Course'}
+                              </Link>
                             </h3>
                             {index === 0 && (
                               <span className="bg-green-100 text-green-800 text-xs font-medium px-2 py-1 rounded-full">
@@ -272,30 +342,57 @@ const Dashboard: React.FC = () => {
                             <span className="font-medium">{formatDate(round.date)}</span>
                           </p>
                           <p className="text-sm text-gray-500">
-                            {round.players.length} player{round.players.length !== 1 ? 's' : ''} • {round.scores[0]?.holes.length || 18} holes
+                            {round.players.length} player{round.players.length !== 1 ? 's' : ''} • {round.holeCount || round.scores[0]?.holes.length || 18} holes
                           </p>
                         </div>
-                        {round.winner && (
+                        {getIndividualWinners(round).length > 0 && (
                           <div className="text-right">
-                            <span className="text-xs text-gray-500 font-medium">Winner</span>
-                            <div className="flex items-center space-x-2 mt-1">
-                              {getPlayerPhoto(round.winner) ? (
-                                <img
-                                  src={getPlayerPhoto(round.winner)}
-                                  alt={getPlayerName(round.winner)}
-                                  className="w-8 h-8 rounded-full border-2 border-green-200"
-                                />
-                              ) : (
-                                <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-green-600 rounded-full flex items-center justify-center border-2 border-green-200">
-                                  <span className="text-white text-sm font-bold">
-                                    {getPlayerName(round.winner).charAt(0).toUpperCase()}
-                                  </span>
-                                </div>
-                              )}
-                              <span className="text-sm font-semibold text-green-600">
-                                {getPlayerName(round.winner)}
-                              </span>
-                            </div>
+                            <span className="text-xs text-gray-500 font-medium">
+                              {getWinnerLabel(round)}
+                            </span>
+                            {getIndividualWinners(round).map(uid => (
+                              <div key={uid} className="flex items-center space-x-2 mt-1">
+                                {getPlayerPhoto(uid) ? (
+                                  <img
+                                    src={getPlayerPhoto(uid)}
+                                    alt={getPlayerName(uid)}
+                                    className="w-8 h-8 rounded-full border-2 border-green-200"
+                                  />
+                                ) : (
+                                  <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-green-600 rounded-full flex items-center justify-center border-2 border-green-200">
+                                    <span className="text-white text-sm font-bold">
+                                      {getPlayerName(uid).charAt(0).toUpperCase()}
+                                    </span>
+                                  </div>
+                                )}
+                                <span className="text-sm font-semibold text-green-600">
+                                  {getPlayerName(uid)}
+                                </span>
+                              </div>
+                            ))}
+                            {round.decidedBy && (
+                              <span className="block mt-1 text-xs text-gray-500">{round.decidedBy}</span>
+                            )}
+                          </div>
+                        )}
+                        {getRoundWinningTeams(round).length > 0 && (
+                          <div className="text-right">
+                            <span className="text-xs text-gray-500 font-medium">
+                              {getWinnerLabel(round)}
+                            </span>
+                            {getRoundWinningTeams(round).map(team => (
+                              <div key={team.id}>
+                                <span className="block mt-1 text-sm font-semibold text-green-600">
+                                  {team.name}
+                                </span>
+                                <span className="block text-xs text-gray-500">
+                                  {team.players.map(getPlayerName).join(', ')}
+                                </span>
+                              </div>
+                            ))}
+                            {round.decidedBy && (
+                              <span className="block mt-1 text-xs text-gray-500">{round.decidedBy}</span>
+                            )}
                           </div>
                         )}
                       </div>
@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import ScoreInput from '../components/ScoreInput';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { useAuth } from '../contexts/AuthContext';
+import { useCourses } from '../contexts/CourseContext';
+import { getAllUsers, getRound, saveRoundEdit, Course, Round, User } from '../utils/firebase';
+import { getPlayingIndex } from '../utils/handicap';
+import { formatMatchStatus, getMatchState } from '../utils/matchPlay';
+import { applyCorrection, canChangePlayers, canEditRound, getRoundChanges } from '../utils/roundEdits';
+import { getCoursePars } from '../utils/scorecard';
+
+// Correcting a finished round: its date, course, players and hole scores.
+// Saving re-scores the round, re-aggregates everyone's stats and records what
+// changed in the round's edit history.
+const EditRound: React.FC = () => {
+  const { roundId } = useParams<{ roundId: string }>();
+  const navigate = useNavigate();
+  const { currentUser, refreshUserProfile } = useAuth();
+  const { courses } = useCourses();
+  const [round, setRound] = useState<Round | null>(null);
+  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [date, setDate] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [players, setPlayers] = useState<string[]>([]);
+  const [scores, setScores] = useState<{ [uid: string]: number[] }>({});
+  const [pickedUp, setPickedUp] = useState<{ [uid: string]: number[] }>({});
+  const [teamScores, setTeamScores] = useState<{ [teamId: string]: number[] }>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!roundId) {
+        return;
+      }
+
+      try {
+        const [roundData, users] = await Promise.all([getRound(roundId), getAllUsers()]);
+        setAllUsers(users);
+        setRound(roundData);
+        if (roundData) {
+          setDate(roundData.date);
+          setCourseId(roundData.courseId);
+          setPlayers(roundData.players);
+          setScores(Object.fromEntries(roundData.scores.map(score => [score.uid, score.holes])));
+          setPickedUp(Object.fromEntries(roundData.scores.map(score => [score.uid, score.pickedUp || []])));
+          setTeamScores(Object.fromEntries((roundData.teams || []).map(team => [team.id, team.holes])));
+        }
+      } catch (error) {
+        console.error('Error fetching round:', error);
+        setError('Failed to load the round. Please refresh the page.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [roundId]);
+
+  const getPlayerName = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.name || 'Unknown Player';
+  };
+
+  // The round's own course snapshot stands in when the course isn't in the
+  // user's list, and only courses long enough for the round can replace it
+  const savedCourse = round && typeof round.course !== 'string' ? { ...round.course, id: round.courseId } : null;
+  const courseOptions: Course[] = [
+    ...(savedCourse && !courses.some(c => c.id === savedCourse.id) ? [savedCourse] : []),
+    ...courses.filter(c => c.holes >= (round?.holeCount || 0))
+  ];
+  const selectedCourse = courseOptions.find(c => c.id === courseId) || null;
+
+  const handlePlayerToggle = (uid: string) => {
+    setPlayers(prev => prev.includes(uid) ? prev.filter(p => p !== uid) : [...prev, uid]);
+  };
+
+  const handleScoreChange = (uid: string, hole: number, value: number) => {
+    setScores(prev => {
+      const holes = [...(prev[uid] || Array(round!.holeCount).fill(0))];
+      holes[hole] = value;
+      return { ...prev, [uid]: holes };
+    });
+    setPickedUp(prev => ({ ...prev, [uid]: (prev[uid] || []).filter(h => h !== hole) }));
+  };
+
+  const handlePickUpChange = (uid: string, hole: number, picked: boolean) => {
+    if (picked) {
+      handleScoreChange(uid, hole, 0);
+    }
+    setPickedUp(prev => {
+      const holes = (prev[uid] || []).filter(h => h !== hole);
+      return { ...prev, [uid]: picked ? [...holes, hole] : holes };
+    });
+  };
+
+  const handleTeamScoreChange = (teamId: string, hole: number, value: number) => {
+    setTeamScores(prev => {
+      const holes = [...(prev[teamId] || Array(round!.holeCount).fill(0))];
+      holes[hole] = value;
+      return { ...prev, [teamId]: holes };
+    });
+  };
+
+  const isPickedUp = (uid: string, hole: number) => (pickedUp[uid] || []).includes(hole);
+
+  const getCorrectedRound = () => applyCorrection(
+    round!,
+    { date, course: selectedCourse!, players, scores, pickedUp, teamScores },
+    uid => getPlayingIndex(allUsers.find(u => u.uid === uid))
+  );
+
+  const validateForm = (): boolean => {
+    if (!date) {
+      setError('Please choose a date');
+      return false;
+    }
+
+    if (!selectedCourse) {
+      setError('Please select a course');
+      return false;
+    }
+
+    if (players.length < 1) {
+      setError('Please select at least one player');
+      return false;
+    }
+
+    if ((round!.skins || round!.pointGames) && players.length < 2) {
+      setError('Side games need at least two players');
+      return false;
+    }
+
+    // Every hole needs a score or an explicit pickup; a match can end early
+    if (round!.format !== 'match' && round!.format !== 'scramble') {
+      for (const uid of players) {
+        const missing = Array.from({ length: round!.holeCount }, (_, i) => i)
+          .findIndex(i => !(scores[uid]?.[i] > 0) && !isPickedUp(uid, i));
+        if (missing !== -1) {
+          setError(`${getPlayerName(uid)} has no score on hole ${missing + 1}. Enter one or mark it picked up (X)`);
+          return false;
+        }
+      }
+    }
+
+    if (round!.format === 'scramble') {
+      for (const team of round!.teams || []) {
+        const missing = Array.from({ length: round!.holeCount }, (_, i) => i).findIndex(i => !(teamScores[team.id]?.[i] > 0));
+        if (missing !== -1) {
+          setError(`${team.name} has no score on hole ${missing + 1}`);
+          return false;
+        }
+      }
+    }
+
+    // A corrected match still has to be played out to a result
+    if (round!.match) {
+      const matchState = getMatchState(getCorrectedRound().match?.holes || [], round!.holeCount);
+      if (!matchState.decided) {
+        setError(`The match isn't finished yet (${formatMatchStatus(matchState)})`);
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!round || !roundId || !currentUser || !validateForm()) {
+      return;
+    }
+
+    const next = getCorrectedRound();
+    const changes = getRoundChanges(round, next);
+    if (changes.length === 0) {
+      setError('Nothing has changed');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveRoundEdit(roundId, next, { by: currentUser.uid, changes });
+      // Stats were re-aggregated with the round, so pick up the new totals
+      await refreshUserProfile();
+      navigate(`/rounds/${roundId}`);
+    } catch (error) {
+      console.error('Error saving round edit:', error);
+      setError('Failed to save your changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const renderMessage = (message: string) => (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <Navigation />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="card text-center py-12">
+          <p className="text-gray-700 mb-4">{message}</p>
+          <Link to={round ? `/rounds/${roundId}` : '/history'} className="text-sm text-green-600 hover:text-green-800 font-medium">
+            {round ? 'Back to the round' : 'Back to history'}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!round) {
+    return renderMessage(error || 'Round not found.');
+  }
+
+  if (round.status === 'in_progress') {
+    return renderMessage('This round is still being played. Finish it before making corrections.');
+  }
+
+  if (!currentUser || !canEditRound(round, currentUser.uid)) {
+    return renderMessage('Only the players and whoever started the round can edit it.');
+  }
+
+  const pars = getCoursePars(selectedCourse, round.holeCount);
+  const playersLocked = !canChangePlayers(round);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900">Edit Round</h1>
+            <p className="text-gray-600 mt-1 text-lg">
+              Changes are recorded in the round's edit history
+            </p>
+          </div>
+          <Link to={`/rounds/${roundId}`} className="text-sm text-green-600 hover:text-green-800 font-medium">
+            Back to the round
+          </Link>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Round Details</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-2">
+                  Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent w-full"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="course" className="block text-sm font-medium text-gray-700 mb-2">
+                  Course <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="course"
+                  value={courseId}
+                  onChange={(e) => setCourseId(e.target.value)}
+                  className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent w-full"
+                >
+                  {courseOptions.map(course => (
+                    <option key={course.id} value={course.id}>{course.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Players</h2>
+            {playersLocked && (
+              <p className="text-sm text-gray-500 mb-4">
+                Sides, teams and Wolf were set up around these players, so they can't be changed.
+              </p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+              {allUsers.map(user => (
+                <label key={user.uid} className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={players.includes(user.uid)}
+                    onChange={() => handlePlayerToggle(user.uid)}
+                    disabled={playersLocked}
+                    className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                  />
+                  <span className="text-sm font-medium text-gray-900">{user.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Scores</h2>
+            {round.format === 'scramble' ? (
+              <div className="space-y-6">
+                {(round.teams || []).map(team => (
+                  <div key={team.id}>
+                    <h3 className="text-lg font-semibold text-gray-900">{team.name}</h3>
+                    <p className="text-sm text-gray-500 mb-2">{team.players.map(getPlayerName).join(', ')}</p>
+                    <div className="grid grid-cols-3 sm:grid-cols-6 lg:grid-cols-9 gap-3">
+                      {pars.map((par, i) => (
+                        <div key={i} className="flex flex-col items-center">
+                          <ScoreInput
+                            value={teamScores[team.id]?.[i] || 0}
+                            onChange={(value) => handleTeamScoreChange(team.id, i, value)}
+                            holeNumber={i + 1}
+                            par={par}
+                          />
+                          <span className="text-xs text-gray-500 mt-1">Par {par}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {players.map(uid => (
+                  <div key={uid}>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{getPlayerName(uid)}</h3>
+                    <div className="grid grid-cols-3 sm:grid-cols-6 lg:grid-cols-9 gap-3">
+                      {pars.map((par, i) => (
+                        <div key={i} className="flex flex-col items-center">
+                          <ScoreInput
+                            value={scores[uid]?.[i] || 0}
+                            onChange={(value) => handleScoreChange(uid, i, value)}
+                            holeNumber={i + 1}
+                            par={par}
+                            pickedUp={isPickedUp(uid, i)}
+                            onPickUpChange={(picked) => handlePickUpChange(uid, i, picked)}
+                          />
+                          <span className="text-xs text-gray-500 mt-1">Par {par}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end items-center space-x-4">
+            <button
+              type="button"
+              onClick={() => navigate(`/rounds/${roundId}`)}
+              className="px-6 py-3 bg-white border-2 border-gray-200 text-gray-700 font-semibold rounded-xl hover:border-gray-300 hover:bg-gray-50 transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-8 py-3 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white font-semibold rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditRound;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { getAllUsers, subscribeToRound, Round, User } from '../utils/firebase';
+import { getRoundFormatLabel } from '../utils/formats';
+import { getLiveLeaderboard } from '../utils/live';
+import { formatToPar } from '../utils/scorecard';
+
+// Read-only leaderboard for following a round from the sidelines, sized to be
+// read across a room on a TV. Updates itself as scores come in.
+const LiveLeaderboard: React.FC = () => {
+  const { roundId } = useParams<{ roundId: string }>();
+  const [round, setRound] = useState<Round | null>(null);
+  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    getAllUsers()
+      .then(setAllUsers)
+      .catch(error => console.error('Error fetching users:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!roundId) {
+      return;
+    }
+
+    return subscribeToRound(roundId, next => {
+      setRound(next);
+      setUpdatedAt(new Date());
+      setError(null);
+      setLoading(false);
+    }, error => {
+      console.error('Error following round:', error);
+      setError('Lost the live feed. Retrying…');
+      setLoading(false);
+    });
+  }, [roundId]);
+
+  const getPlayerName = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.name || 'Unknown Player';
+  };
+
+  const getPlayerPhoto = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.photoURL;
+  };
+
+  const getToParColor = (toPar: number) => {
+    if (toPar < 0) return 'text-red-400';
+    if (toPar === 0) return 'text-white';
+    return 'text-sky-300';
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!round) {
+    return (
+      <div className="min-h-screen bg-golf-green-900 flex flex-col items-center justify-center text-white">
+        <p className="text-3xl font-semibold mb-6">{error || 'Round not found.'}</p>
+        <Link to="/" className="text-lg text-golf-green-200 hover:text-white font-medium">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const leaderboard = getLiveLeaderboard(round);
+  const isShared = (position: number) => leaderboard.filter(entry => entry.position === position).length > 1;
+  const isFinished = round.status !== 'in_progress';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-golf-green-900 to-golf-green-700 text-white px-6 py-8 lg:px-16 lg:py-12">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-10">
+        <div>
+          <h1 className="text-4xl lg:text-6xl font-bold">{round.courseName}</h1>
+          <p className="text-xl lg:text-2xl text-golf-green-100 mt-2">
+            {getRoundFormatLabel(round)} · {round.holeCount} holes
+          </p>
+        </div>
+        <div className="text-right">
+          {isFinished ? (
+            <span className="px-4 py-2 text-xl lg:text-2xl font-bold rounded-lg bg-white text-golf-green-900">Final</span>
+          ) : (
+            <span className="flex items-center gap-3 text-xl lg:text-2xl font-bold">
+              <span className="w-4 h-4 rounded-full bg-red-500 animate-pulse" />
+              Live
+            </span>
+          )}
+          {updatedAt && (
+            <p className="text-sm lg:text-base text-golf-green-200 mt-2">
+              Updated {updatedAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mb-6 text-xl text-amber-300">{error}</p>}
+
+      <div className="grid grid-cols-[5rem_1fr_8rem_8rem] lg:grid-cols-[8rem_1fr_12rem_12rem] gap-y-2 items-center">
+        <span className="text-lg lg:text-xl uppercase tracking-wide text-golf-green-200">Pos</span>
+        <span className="text-lg lg:text-xl uppercase tracking-wide text-golf-green-200">Player</span>
+        <span className="text-lg lg:text-xl uppercase tracking-wide text-golf-green-200 text-right">To Par</span>
+        <span className="text-lg lg:text-xl uppercase tracking-wide text-golf-green-200 text-right">Thru</span>
+
+        {leaderboard.map(entry => (
+          <React.Fragment key={entry.uid}>
+            <span className="text-4xl lg:text-6xl font-bold py-3">
+              {entry.thru > 0 ? `${isShared(entry.position) ? 'T' : ''}${entry.position}` : '–'}
+            </span>
+            <span className="flex items-center gap-4 min-w-0">
+              {getPlayerPhoto(entry.uid) ? (
+                <img src={getPlayerPhoto(entry.uid)} alt="" className="w-12 h-12 lg:w-16 lg:h-16 rounded-full object-cover" />
+              ) : (
+                <span className="w-12 h-12 lg:w-16 lg:h-16 rounded-full bg-golf-green-600 flex items-center justify-center text-2xl lg:text-3xl font-bold">
+                  {getPlayerName(entry.uid).charAt(0)}
+                </span>
+              )}
+              <span className="text-3xl lg:text-5xl font-semibold truncate">{getPlayerName(entry.uid)}</span>
+            </span>
+            <span className={`text-4xl lg:text-6xl font-bold text-right ${getToParColor(entry.total)}`}>
+              {entry.thru > 0 ? formatToPar(entry.total) : '–'}
+            </span>
+            <span className="text-3xl lg:text-5xl font-semibold text-right text-golf-green-100">
+              {entry.thru === round.holeCount ? 'F' : entry.thru || '–'}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LiveLeaderboard;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import ScoreInput from '../components/ScoreInput';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllUsers, joinRound, setLiveScore, subscribeToRound, Round, User } from '../utils/firebase';
+import { LiveScores, getCellKey, getLiveRoundScores, getOverwrittenCells } from '../utils/live';
+import { formatToPar, getHolePars } from '../utils/scorecard';
+import { getHolesThru, getToPar, sumHoles } from '../utils/scoring';
+
+// A player's own card on a round someone else started, scored from their own
+// device while the round's starter keeps the rest of the scorecard
+const LiveScorecard: React.FC = () => {
+  const { roundId } = useParams<{ roundId: string }>();
+  const { currentUser } = useAuth();
+  const [round, setRound] = useState<Round | null>(null);
+  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [overwritten, setOverwritten] = useState<{ [cellKey: string]: string }>({});
+  const lastLiveRef = useRef<LiveScores>({});
+  const joinedRef = useRef(false);
+
+  useEffect(() => {
+    getAllUsers()
+      .then(setAllUsers)
+      .catch(error => console.error('Error fetching users:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!roundId || !currentUser) {
+      return;
+    }
+
+    return subscribeToRound(roundId, next => {
+      const liveScores = next?.liveScores || {};
+      const changed = getOverwrittenCells(lastLiveRef.current, liveScores, currentUser.uid);
+      lastLiveRef.current = liveScores;
+      setOverwritten(prev => ({ ...prev, ...changed }));
+      setRound(next);
+      setError(null);
+      setLoading(false);
+
+      // Let the starter know this card is now being kept on this device
+      const isPlaying = next?.status === 'in_progress' && next.players.includes(currentUser.uid);
+      if (isPlaying && !next.joined?.includes(currentUser.uid) && !joinedRef.current) {
+        joinedRef.current = true;
+        joinRound(roundId, currentUser.uid).catch(error => {
+          console.error('Error joining round:', error);
+          setError('Failed to join the round. Please refresh the page.');
+        });
+      }
+    }, error => {
+      console.error('Error following round:', error);
+      setError('Lost the live feed. Scores from other devices will show again once it reconnects.');
+      setLoading(false);
+    });
+  }, [roundId, currentUser]);
+
+  const getPlayerName = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.name || 'Unknown Player';
+  };
+
+  const handleScore = (hole: number, score: number, pickedUp: boolean) => {
+    if (!roundId || !currentUser) {
+      return;
+    }
+
+    const key = getCellKey(currentUser.uid, hole);
+    setOverwritten(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    setLiveScore(roundId, currentUser.uid, hole, { score, pickedUp, by: currentUser.uid }).catch(error => {
+      console.error('Error sending live score:', error);
+      setError('That score didn\'t save. Check your connection and try again.');
+    });
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const renderMessage = (message: string) => (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <Navigation />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="card text-center py-12">
+          <p className="text-gray-700 mb-4">{message}</p>
+          <Link to="/" className="text-sm text-green-600 hover:text-green-800 font-medium">
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!round) {
+    return renderMessage(error || 'Round not found.');
+  }
+
+  if (round.status !== 'in_progress') {
+    return renderMessage('This round has been finished.');
+  }
+
+  if (!currentUser || !round.players.includes(currentUser.uid)) {
+    return renderMessage('You aren\'t playing in this round.');
+  }
+
+  const pars = getHolePars(round);
+  const cards = getLiveRoundScores(round);
+  const myCard = cards.find(card => card.uid === currentUser.uid)!;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <Navigation />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{round.courseName}</h1>
+          <p className="text-gray-600 mt-1">
+            Live round · Started by {getPlayerName(round.createdBy || '')} ·{' '}
+            <Link to={`/live/${round.id}`} className="text-sm text-green-600 hover:text-green-800 font-medium">
+              Leaderboard
+            </Link>
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Your Card</h2>
+            <span className="text-lg font-bold text-gray-900">
+              {sumHoles(myCard.holes)}
+              <span className="ml-2 text-sm font-medium text-gray-500">
+                {formatToPar(getToPar(myCard.holes, pars))} thru {getHolesThru(myCard)}
+              </span>
+            </span>
+          </div>
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+            {myCard.holes.map((score, i) => {
+              const changedBy = overwritten[getCellKey(currentUser.uid, i)];
+              return (
+                <div key={i} className="flex flex-col items-center">
+                  <div
+                    className={changedBy ? 'rounded-lg ring-2 ring-amber-400' : ''}
+                    title={changedBy ? `Changed by ${getPlayerName(changedBy)}` : undefined}
+                  >
+                    <ScoreInput
+                      value={score}
+                      onChange={(value) => handleScore(i, value, false)}
+                      holeNumber={i + 1}
+                      par={pars[i]}
+                      pickedUp={(myCard.pickedUp || []).includes(i)}
+                      onPickUpChange={(picked) => handleScore(i, 0, picked)}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-500 mt-1">Par {pars[i]}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Everyone</h2>
+          <ul className="divide-y divide-gray-100">
+            {cards.map(card => (
+              <li key={card.uid} className="flex items-center justify-between py-2">
+                <span className="font-medium text-gray-900">
+                  {getPlayerName(card.uid)}
+                  {round.joined?.includes(card.uid) && <span className="ml-2 text-xs text-blue-600">📱</span>}
+                </span>
+                <span className="text-sm text-gray-600">
+                  {getHolesThru(card) > 0
+                    ? `${formatToPar(getToPar(card.holes, pars))} thru ${getHolesThru(card)}`
+                    : 'Not started'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveScorecard;
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { signInWithGoogle, signInWithPhone, createUser, RecaptchaVerifier } from '../utils/firebase';
 import { auth } from '../utils/firebase';
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { currentUser, userProfile } = useAuth();
   const [phoneNumber, setPhoneNumber] = useState('');
   const [verificationCode, setVerificationCode] = useState('');
@@ -13,11 +14,16 @@ const LoginPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  // The page a signed-out visitor was sent here from, or the dashboard
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+  const isSpectating = from?.pathname.startsWith('/live/');
+
   useEffect(() => {
     if (currentUser && userProfile) {
-      navigate('/');
+      navigate(redirectTo, { replace: true });
     }
-  }, [currentUser, userProfile, navigate]);
+  }, [currentUser, userProfile, navigate, redirectTo]);
 
   useEffect(() => {
     // Initialize reCAPTCHA
@@ -63,7 +69,7 @@ const LoginPage: React.FC = () => {
         });
       }
       
-      navigate('/');
+      navigate(redirectTo, { replace: true });
     } catch (error: any) {
       console.error('Google sign-in error:', error);
       if (error.code === 'auth/popup-closed-by-user') {
@@ -135,7 +141,7 @@ const LoginPage: React.FC = () => {
         });
       }
       
-      navigate('/');
+      navigate(redirectTo, { replace: true });
     } catch (error) {
       console.error('Verification error:', error);
       setError('Invalid verification code. Please try again.');
@@ -155,7 +161,9 @@ const LoginPage: React.FC = () => {
             Welcome to Buddies Golf
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Track your casual golf rounds with friends
+            {isSpectating
+              ? "Sign in to follow the live leaderboard. You'll go straight back to it."
+              : 'Track your casual golf rounds with friends'}
           </p>
         </div>
 
@@ -1,25 +1,107 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import Navigation from '../components/Navigation';
 import ScoreInput from '../components/ScoreInput';
 import { useAuth } from '../contexts/AuthContext';
 import { useCourses } from '../contexts/CourseContext';
-import { getAllUsers, createRound, User } from '../utils/firebase';
+import {
+  getAllUsers,
+  getRound,
+  finishRound,
+  LIVE_SCORES_CHANGED,
+  saveDraftRound,
+  setLiveScore,
+  subscribeToRound,
+  GameFormat,
+  HoleDetail,
+  HoleShots,
+  PointEvent,
+  PointEventRecord,
+  TieBreak,
+  Round,
+  RoundSetup,
+  RoundTeam,
+  RoundTee,
+  ScoringMode,
+  Shot,
+  StablefordVariant,
+  User
+} from '../utils/firebase';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { Combobox } from '@headlessui/react';
 import { CheckIcon, ChevronUpDownIcon } from '@heroicons/react/20/solid';
 import { Course } from '../utils/firebase';
+import { formatToPar, getCourseHoleIndexes, getCoursePars, getCourseTees, toRoundTee } from '../utils/scorecard';
+import { STANDARD_SLOPE, getNetScoreFields, getPlayingIndex } from '../utils/handicap';
+import {
+  FORMAT_LIST,
+  FormatConfig,
+  ScoringInput,
+  getFormat,
+  getReceivedStrokes,
+  scoreRound,
+  scoreSideGames
+} from '../utils/formats';
+import { getToPar, sumHoles } from '../utils/scoring';
+import { TIE_BREAK_OPTIONS } from '../utils/ties';
+import {
+  MatchSide,
+  buildMatchResult,
+  formatMatchStatus,
+  formatRunningLead,
+  getLeadColor,
+  getMatchLeader,
+  getMatchState,
+  getRunningLeads
+} from '../utils/matchPlay';
+import { DEFAULT_SKINS_OPTIONS, SkinsOptions } from '../utils/skins';
+import { DEFAULT_NASSAU_OPTIONS, NassauOptions } from '../utils/nassau';
+import { formatMoney, getMoneyColor } from '../utils/money';
+import NassauBreakdown from '../components/NassauBreakdown';
+import TeamScorecard from '../components/TeamScorecard';
+import TeamResults from '../components/TeamResults';
+import TeamBuilder from '../components/TeamBuilder';
+import SkinsSetup from '../components/SkinsSetup';
+import NassauSetup from '../components/NassauSetup';
+import WolfSetup from '../components/WolfSetup';
+import PointGamesSetup from '../components/PointGamesSetup';
+import HoleSideGames from '../components/HoleSideGames';
+import PlayoffCard from '../components/PlayoffCard';
+import WolfStandings from '../components/WolfStandings';
+import HoleEventToggles from '../components/HoleEventToggles';
+import HoleStatsPanel from '../components/HoleStatsPanel';
+import ShotLogger from '../components/ShotLogger';
+import StrokeDots from '../components/StrokeDots';
+import { getShotScore, groupShots } from '../utils/shots';
+import { LiveScores, applyLiveScores, getCellKey, getOverwrittenCells } from '../utils/live';
+import { cleanHoleDetail, hasHoleDetail } from '../utils/holeStats';
+import {
+  DEFAULT_POINT_GAMES_OPTIONS,
+  PointGamesOptions,
+  getEnabledEvents,
+  hasEvent,
+  togglePointEvent
+} from '../utils/pointGames';
+import { WOLF_PLAYERS, WolfDecision, getWolf } from '../utils/wolf';
+import {
+  MAX_TEAM_SIZE,
+  TeamDraft,
+  getDefaultScramblePercents
+} from '../utils/teams';
+
+// Quiet period after the last change before the round in progress is saved
+const AUTOSAVE_DELAY_MS = 1500;
 
 const NewRound: React.FC = () => {
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, refreshUserProfile } = useAuth();
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Course selection state
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { courses, loading: coursesLoading, error: coursesError } = useCourses();
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [query, setQuery] = useState('');
@@ -29,6 +111,53 @@ const NewRound: React.FC = () => {
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
   const [holeCount, setHoleCount] = useState(18);
   const [scores, setScores] = useState<{ [uid: string]: number[] }>({});
+  const [pickedUp, setPickedUp] = useState<{ [uid: string]: number[] }>({});
+  const [playerTees, setPlayerTees] = useState<{ [uid: string]: string }>({});
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('gross');
+  const [format, setFormat] = useState<GameFormat>('stroke');
+  const [stablefordVariant, setStablefordVariant] = useState<StablefordVariant>('standard');
+  const [matchSides, setMatchSides] = useState<{ [uid: string]: MatchSide }>({});
+  const [skinsEnabled, setSkinsEnabled] = useState(false);
+  const [skinsOptions, setSkinsOptions] = useState<SkinsOptions>(DEFAULT_SKINS_OPTIONS);
+  const [nassauEnabled, setNassauEnabled] = useState(false);
+  const [nassauOptions, setNassauOptions] = useState<NassauOptions>(DEFAULT_NASSAU_OPTIONS);
+  const [nassauPresses, setNassauPresses] = useState<number[]>([]);
+  const [teamCount, setTeamCount] = useState(2);
+  const [playerTeams, setPlayerTeams] = useState<{ [uid: string]: string }>({});
+  const [teamNames, setTeamNames] = useState<{ [teamId: string]: string }>({});
+  const [teamScores, setTeamScores] = useState<{ [teamId: string]: number[] }>({});
+  const [scramblePercents, setScramblePercents] = useState<number[] | null>(null);
+  const [wolfEnabled, setWolfEnabled] = useState(false);
+  const [wolfMode, setWolfMode] = useState<ScoringMode>('gross');
+  const [wolfDecisions, setWolfDecisions] = useState<{ [hole: number]: WolfDecision }>({});
+  const [pointGamesEnabled, setPointGamesEnabled] = useState(false);
+  const [pointGamesOptions, setPointGamesOptions] = useState<PointGamesOptions>(DEFAULT_POINT_GAMES_OPTIONS);
+  const [pointEvents, setPointEvents] = useState<PointEventRecord[]>([]);
+  const [trackHoleStats, setTrackHoleStats] = useState(false);
+  const [holeDetails, setHoleDetails] = useState<{ [uid: string]: HoleDetail[] }>({});
+  const [trackShots, setTrackShots] = useState(false);
+  const [shotLogs, setShotLogs] = useState<{ [uid: string]: Shot[][] }>({});
+  const [shotTarget, setShotTarget] = useState<{ uid: string; hole: number } | null>(null);
+  const [tieBreak, setTieBreak] = useState<TieBreak>('countback');
+  const [playoffScores, setPlayoffScores] = useState<{ [id: string]: number[] }>({});
+  const [playoffHoleCount, setPlayoffHoleCount] = useState(1);
+
+  // Round in progress: the draft's id once it has been autosaved, and whether
+  // it still has to be loaded when resuming from ?roundId=
+  const draftIdRef = useRef(searchParams.get('roundId'));
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const [resuming, setResuming] = useState(!!draftIdRef.current);
+  const [createdBy, setCreatedBy] = useState<string | null>(null);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+
+  // Live scoring once the draft exists: players who joined from their own
+  // device, and holes this device entered that someone else then changed
+  const [liveRoundId, setLiveRoundId] = useState(draftIdRef.current);
+  const [joined, setJoined] = useState<string[]>([]);
+  const [overwritten, setOverwritten] = useState<{ [cellKey: string]: string }>({});
+  const lastLiveRef = useRef<LiveScores>({});
+  const [linkCopied, setLinkCopied] = useState(false);
   
   // Set initial course from URL params if provided
   useEffect(() => {
@@ -49,12 +178,14 @@ const NewRound: React.FC = () => {
         const users = await getAllUsers();
         setAllUsers(users);
         
-        // Initialize scores for all users
-        const initialScores: { [uid: string]: number[] } = {};
-        users.forEach(user => {
-          initialScores[user.uid] = new Array(holeCount).fill(0);
+        // Initialize scores for all users, keeping any already entered
+        setScores(prev => {
+          const initialScores: { [uid: string]: number[] } = {};
+          users.forEach(user => {
+            initialScores[user.uid] = Array.from({ length: holeCount }, (_, i) => prev[user.uid]?.[i] || 0);
+          });
+          return initialScores;
         });
-        setScores(initialScores);
       } catch (error) {
         console.error('Error fetching users:', error);
         setError('Failed to load users. Please refresh the page.');
@@ -66,6 +197,144 @@ const NewRound: React.FC = () => {
     fetchUsers();
   }, [holeCount]);
 
+  // Resuming a round in progress: put the form back the way it was left
+  useEffect(() => {
+    const roundId = draftIdRef.current;
+    if (!resuming || !roundId || coursesLoading) {
+      return;
+    }
+
+    const restoreDraft = (round: Round) => {
+      const course = courses.find(c => c.id === round.courseId) || (typeof round.course === 'string' ? null : round.course);
+      setSelectedCourse(course);
+      setRoundDate(round.date);
+      setSelectedPlayers(round.players);
+      setHoleCount(round.holeCount);
+      setScores(prev => ({ ...prev, ...Object.fromEntries(round.scores.map(score => [score.uid, score.holes])) }));
+      setPickedUp(Object.fromEntries(round.scores.map(score => [score.uid, score.pickedUp || []])));
+      setScoringMode(round.scoringMode || 'gross');
+      setFormat(round.format || 'stroke');
+      setStablefordVariant(round.stablefordVariant || 'standard');
+      setCreatedBy(round.createdBy || null);
+
+      const setup = round.setup;
+      if (!setup) {
+        return;
+      }
+      setPlayerTees(setup.playerTees);
+      setMatchSides(setup.matchSides);
+      setSkinsEnabled(setup.skinsEnabled);
+      setSkinsOptions(setup.skinsOptions);
+      setNassauEnabled(setup.nassauEnabled);
+      setNassauOptions(setup.nassauOptions);
+      setNassauPresses(setup.nassauPresses);
+      setTeamCount(setup.teamCount);
+      setPlayerTeams(setup.playerTeams);
+      setTeamNames(setup.teamNames);
+      setTeamScores(setup.teamScores);
+      setScramblePercents(setup.scramblePercents);
+      setWolfEnabled(setup.wolfEnabled);
+      setWolfMode(setup.wolfMode);
+      setWolfDecisions(setup.wolfDecisions);
+      setPointGamesEnabled(setup.pointGamesEnabled);
+      setPointGamesOptions(setup.pointGamesOptions);
+      setPointEvents(setup.pointEvents);
+      setTrackHoleStats(setup.trackHoleStats);
+      setHoleDetails(setup.holeDetails);
+      setTrackShots(setup.trackShots);
+      setShotLogs(groupShots(setup.shots));
+      setTieBreak(setup.tieBreak);
+      setPlayoffScores(setup.playoffScores);
+      setPlayoffHoleCount(setup.playoffHoleCount);
+    };
+
+    const loadDraft = async () => {
+      try {
+        const round = await getRound(roundId);
+        if (round?.status === 'in_progress') {
+          restoreDraft(round);
+        } else {
+          // Finished or discarded since the link was opened; start afresh
+          draftIdRef.current = null;
+          setLiveRoundId(null);
+          setSearchParams({}, { replace: true });
+          setError('That round is no longer in progress.');
+        }
+      } catch (error) {
+        console.error('Error loading round in progress:', error);
+        setError('Failed to load the round in progress. Please refresh the page.');
+      } finally {
+        setResuming(false);
+      }
+    };
+
+    loadDraft();
+  }, [resuming, coursesLoading, courses, setSearchParams]);
+
+  // Scores entered on other devices come in hole by hole over whatever is here
+  useEffect(() => {
+    if (!liveRoundId || resuming || !currentUser) {
+      return;
+    }
+
+    return subscribeToRound(liveRoundId, round => {
+      if (!round) {
+        return;
+      }
+
+      const liveScores = round.liveScores || {};
+      const changed = getOverwrittenCells(lastLiveRef.current, liveScores, currentUser.uid);
+      lastLiveRef.current = liveScores;
+      setOverwritten(prev => ({ ...prev, ...changed }));
+      setJoined(round.joined || []);
+      setScores(prev => {
+        const next = { ...prev };
+        Object.entries(liveScores).forEach(([uid, cells]) => {
+          if (prev[uid]) next[uid] = applyLiveScores({ holes: prev[uid] }, cells).holes;
+        });
+        return next;
+      });
+      setPickedUp(prev => {
+        const next = { ...prev };
+        Object.entries(liveScores).forEach(([uid, cells]) => {
+          next[uid] = applyLiveScores({ holes: Array(holeCount).fill(0), pickedUp: prev[uid] }, cells).pickedUp;
+        });
+        return next;
+      });
+    }, error => console.error('Error following round:', error));
+  }, [liveRoundId, resuming, currentUser, holeCount]);
+
+  // Once the round is saved every score goes up hole by hole, so devices
+  // scoring at the same time can't overwrite each other's cards
+  const sendLiveScore = (uid: string, holeIndex: number, score: number, isPickedUp: boolean) => {
+    const key = getCellKey(uid, holeIndex);
+    setOverwritten(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    if (!liveRoundId || !currentUser) {
+      return;
+    }
+
+    setLiveScore(liveRoundId, uid, holeIndex, { score, pickedUp: isPickedUp, by: currentUser.uid }).catch(error => {
+      console.error('Error sending live score:', error);
+      setAutosaveFailed(true);
+    });
+  };
+
+  // A player who joined keeps their own card; everyone else's is kept here
+  const isScoredElsewhere = (uid: string) => joined.includes(uid) && uid !== currentUser?.uid;
+
+  const handleCopyLiveLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/rounds/${liveRoundId}/score`);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
   const handlePlayerToggle = (uid: string) => {
     setSelectedPlayers(prev => 
       prev.includes(uid) 
@@ -79,23 +348,281 @@ const NewRound: React.FC = () => {
       ...prev,
       [uid]: prev[uid].map((s, i) => i === holeIndex ? score : s)
     }));
+    setPickedUp(prev => ({ ...prev, [uid]: (prev[uid] || []).filter(hole => hole !== holeIndex) }));
+    sendLiveScore(uid, holeIndex, score, false);
   };
 
-  const calculateTotalScore = (uid: string) => {
-    return scores[uid]?.reduce((sum, score) => sum + (score || 0), 0) || 0;
+  // A pickup has no score, so clear any that was entered
+  const handlePickUpChange = (uid: string, holeIndex: number, isPickedUp: boolean) => {
+    setScores(prev => ({
+      ...prev,
+      [uid]: prev[uid].map((s, i) => i === holeIndex ? 0 : s)
+    }));
+    setPickedUp(prev => {
+      const holes = (prev[uid] || []).filter(hole => hole !== holeIndex);
+      return { ...prev, [uid]: isPickedUp ? [...holes, holeIndex].sort((a, b) => a - b) : holes };
+    });
+    sendLiveScore(uid, holeIndex, 0, isPickedUp);
   };
 
-  const getWinner = () => {
-    const playerScores = selectedPlayers.map(uid => ({
-      uid,
-      total: calculateTotalScore(uid)
-    }));
-    
-    return playerScores.reduce((winner, current) => 
-      current.total < winner.total ? current : winner
+  const getPickedUp = (uid: string) => (pickedUp[uid] || []).filter(hole => hole < holeCount);
+  const isPickedUp = (uid: string, holeIndex: number) => getPickedUp(uid).includes(holeIndex);
+
+  const handleHoleDetailChange = (uid: string, holeIndex: number, detail: HoleDetail) => {
+    setHoleDetails(prev => {
+      const details = [...(prev[uid] || [])];
+      details[holeIndex] = detail;
+      return { ...prev, [uid]: details };
+    });
+  };
+
+  const getHoleShots = (uid: string, holeIndex: number) => shotLogs[uid]?.[holeIndex] || [];
+
+  // A logged hole's score is its shot count, so the two can't disagree
+  const handleShotsChange = (uid: string, holeIndex: number, shots: Shot[]) => {
+    setShotLogs(prev => {
+      const holes = [...(prev[uid] || [])];
+      holes[holeIndex] = shots;
+      return { ...prev, [uid]: holes };
+    });
+    handleScoreChange(uid, holeIndex, getShotScore(shots));
+  };
+
+  const getLoggedShots = (): HoleShots[] =>
+    trackShots
+      ? selectedPlayers.flatMap(uid =>
+          Array.from({ length: holeCount }, (_, hole) => ({ uid, hole, shots: getHoleShots(uid, hole) }))
+            .filter(entry => entry.shots.length > 0)
+        )
+      : [];
+
+  // One entry per hole, or nothing if no detail was recorded for this player
+  const getPlayerDetails = (uid: string): HoleDetail[] | null => {
+    const details = Array.from({ length: holeCount }, (_, i) => cleanHoleDetail(holeDetails[uid]?.[i] || {}));
+    return trackHoleStats && details.some(hasHoleDetail) ? details : null;
+  };
+
+  const holePars = getCoursePars(selectedCourse, holeCount);
+  const courseTees = getCourseTees(selectedCourse);
+
+  // Players default to the first tee set until they pick another
+  const getPlayerTee = (uid: string) => {
+    return courseTees.find(tee => tee.id === playerTees[uid]) || courseTees[0];
+  };
+
+  const handleTeeChange = (uid: string, teeId: string) => {
+    setPlayerTees(prev => ({ ...prev, [uid]: teeId }));
+  };
+
+  const coursePar = selectedCourse?.par || 72;
+  const holeIndexes = getCourseHoleIndexes(selectedCourse, holeCount);
+
+  // Without tee sets, rate the course at scratch
+  const getPlayerRoundTee = (uid: string): RoundTee => {
+    const tee = getPlayerTee(uid);
+    return tee
+      ? toRoundTee(tee, coursePar)
+      : { id: 'default', name: 'Default', rating: coursePar, slope: STANDARD_SLOPE, par: coursePar };
+  };
+
+  const getPlayerCard = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return getNetScoreFields(
+      scores[uid] || [],
+      getPlayingIndex(user),
+      getPlayerRoundTee(uid),
+      holeIndexes,
+      holePars,
+      getPickedUp(uid),
+      selectedCourse?.holes || 18
     );
   };
 
+  const handleFormatChange = (next: GameFormat) => {
+    setFormat(next);
+    const { defaultScoringMode } = getFormat(next);
+    if (defaultScoringMode) {
+      setScoringMode(defaultScoringMode);
+    }
+  };
+
+  // Until assigned, the first half of the selected players make up side A
+  const getPlayerSide = (uid: string): MatchSide => {
+    return matchSides[uid] || (selectedPlayers.indexOf(uid) < Math.ceil(selectedPlayers.length / 2) ? 'A' : 'B');
+  };
+
+  const handleSideChange = (uid: string, side: MatchSide) => {
+    setMatchSides(prev => ({ ...prev, [uid]: side }));
+  };
+
+  const sideA = selectedPlayers.filter(uid => getPlayerSide(uid) === 'A');
+  const sideB = selectedPlayers.filter(uid => getPlayerSide(uid) === 'B');
+
+  const teamIds = Array.from({ length: teamCount }, (_, i) => `team-${i + 1}`);
+
+  // Players are dealt round the teams in the order they were selected until moved
+  const getPlayerTeam = (uid: string) => {
+    return teamIds.includes(playerTeams[uid]) ? playerTeams[uid] : teamIds[selectedPlayers.indexOf(uid) % teamCount];
+  };
+
+  const handlePlayerTeamChange = (uid: string, teamId: string) => {
+    setPlayerTeams(prev => ({ ...prev, [uid]: teamId }));
+  };
+
+  const handleTeamNameChange = (teamId: string, name: string) => {
+    setTeamNames(prev => ({ ...prev, [teamId]: name }));
+  };
+
+  const handleTeamScoreChange = (teamId: string, holeIndex: number, score: number) => {
+    setTeamScores(prev => {
+      const holes = (prev[teamId] || []).slice(0, holeCount);
+      while (holes.length < holeCount) holes.push(0);
+      return { ...prev, [teamId]: holes.map((s, i) => i === holeIndex ? score : s) };
+    });
+  };
+
+  const teamDrafts: TeamDraft[] = teamIds.map((id, i) => ({
+    id,
+    name: teamNames[id]?.trim() || `Team ${i + 1}`,
+    players: selectedPlayers.filter(uid => getPlayerTeam(uid) === id)
+  }));
+
+  const largestTeam = Math.max(...teamDrafts.map(team => team.players.length), 1);
+  // Recommended allowances for the team size until someone edits them
+  const teamPercents = scramblePercents || getDefaultScramblePercents(largestTeam);
+
+  const handleScramblePercentChange = (position: number, value: number) => {
+    const next = [...teamPercents];
+    while (next.length < MAX_TEAM_SIZE) next.push(0);
+    next[position] = value;
+    setScramblePercents(next);
+  };
+
+  // Everything the format engine needs to score the card as it stands
+  const scoringInput: ScoringInput = {
+    players: selectedPlayers,
+    holeCount,
+    pars: holePars,
+    holeIndexes,
+    scores,
+    pickedUp: Object.fromEntries(selectedPlayers.map(uid => [uid, getPickedUp(uid)])),
+    courseHandicaps: Object.fromEntries(selectedPlayers.map(uid => [uid, getPlayerCard(uid).courseHandicap])),
+    scoringMode,
+    config: {
+      stablefordVariant,
+      sideA,
+      sideB,
+      teams: teamDrafts.filter(team => team.players.length > 0),
+      teamScores,
+      teamHandicapPercents: teamPercents,
+      tieBreak,
+      playoff: Object.entries(playoffScores).map(([id, holes]) => ({ id, holes }))
+    }
+  };
+
+  const formatDefinition = getFormat(format);
+  const formatResult = scoreRound(format, scoringInput);
+  const getStanding = (id: string) => formatResult.standings.find(standing => standing.id === id);
+  const receivedStrokes = Object.fromEntries(
+    selectedPlayers.map(uid => [uid, getReceivedStrokes(format, scoringInput, uid)])
+  );
+
+  // Format options picked from the format's own config fields
+  const handleConfigChange = (key: keyof FormatConfig, value: string) => {
+    if (key === 'stablefordVariant') {
+      setStablefordVariant(value as StablefordVariant);
+    }
+  };
+
+  const isTeamFormat = formatDefinition.participants === 'teams';
+  const teamCards: RoundTeam[] = isTeamFormat
+    ? scoringInput.config.teams!.map(team => {
+        const { id, name, players, grossHoles, gross, net, handicap } = getStanding(team.id)!;
+        return { id, name: name || team.name, players, holes: grossHoles, gross, net, handicap };
+      })
+    : [];
+
+  // Everyone level at the top before any tie-break; a level match is simply halved
+  const tiedLeaders = format === 'match' ? [] : formatResult.standings.filter(standing => standing.position === 1);
+  const showPlayoff = tieBreak === 'playoff' && tiedLeaders.length > 1;
+
+  const handlePlayoffScoreChange = (id: string, hole: number, score: number) => {
+    setPlayoffScores(prev => {
+      const holes = [...(prev[id] || [])];
+      holes[hole] = score;
+      return { ...prev, [id]: holes };
+    });
+  };
+
+  const matchHoles = formatResult.matchHoles || [];
+  const matchState = getMatchState(matchHoles, holeCount);
+  const matchLeads = getRunningLeads(matchHoles);
+
+  const getSideName = (side: string[]) => side.map(uid => getPlayerName(uid)).join(' & ');
+
+  const getMatchStatusText = () => {
+    const leader = getMatchLeader(matchState);
+    const status = formatMatchStatus(matchState);
+    if (!leader) {
+      return matchState.decided ? 'Match halved' : status;
+    }
+    const name = getSideName(leader === 'A' ? sideA : sideB);
+    return matchState.decided ? `${name} win ${status}` : `${name} ${status}`;
+  };
+
+  const handleSkinsOptionChange = <K extends keyof SkinsOptions>(key: K, value: SkinsOptions[K]) => {
+    setSkinsOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleNassauOptionChange = <K extends keyof NassauOptions>(key: K, value: NassauOptions[K]) => {
+    setNassauOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handlePressToggle = (hole: number) => {
+    setNassauPresses(prev => prev.includes(hole) ? prev.filter(h => h !== hole) : [...prev, hole]);
+  };
+
+  // Select values: '' undecided, 'lone', 'blind', or the partner's uid
+  const handleWolfDecision = (hole: number, value: string) => {
+    setWolfDecisions(prev => {
+      const { [hole]: _previous, ...rest } = prev;
+      if (!value) return rest;
+      if (value === 'lone' || value === 'blind') return { ...rest, [hole]: { choice: value, partner: null } };
+      return { ...rest, [hole]: { choice: 'partner', partner: value } };
+    });
+  };
+
+  const getWolfDecisionValue = (hole: number) => {
+    const decision = wolfDecisions[hole];
+    if (!decision) return '';
+    return decision.choice === 'partner' ? decision.partner || '' : decision.choice;
+  };
+
+  const handlePointGamesOptionChange = <K extends keyof PointGamesOptions>(key: K, value: PointGamesOptions[K]) => {
+    setPointGamesOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handlePointEventToggle = (hole: number, uid: string, event: PointEvent) => {
+    setPointEvents(prev => togglePointEvent(prev, hole, uid, event));
+  };
+
+  const {
+    skins: skinsResult,
+    nassau: nassauResult,
+    wolf: wolfResult,
+    pointGames: pointGamesResult
+  } = scoreSideGames(scoringInput, {
+    ...(skinsEnabled ? { skins: skinsOptions } : {}),
+    ...(nassauEnabled ? { nassau: { sideA, sideB, options: nassauOptions, presses: nassauPresses } } : {}),
+    // Tee order is the order players were selected in
+    ...(wolfEnabled ? { wolf: { order: selectedPlayers, mode: wolfMode, decisions: wolfDecisions } } : {}),
+    ...(pointGamesEnabled ? { pointGames: { options: pointGamesOptions, events: pointEvents } } : {})
+  });
+
+  const getPlayerSkins = (uid: string) => skinsResult?.totals.find(total => total.uid === uid);
+
+  const getPlayerPointGames = (uid: string) => pointGamesResult?.totals.find(total => total.uid === uid);
+
   const validateForm = (): boolean => {
     if (!selectedCourse) {
       setError('Please select a course');
@@ -107,8 +634,87 @@ const NewRound: React.FC = () => {
       return false;
     }
     
-    // Validate scores
-    for (const uid of selectedPlayers) {
+    if (format === 'match') {
+      if (sideA.length === 0 || sideA.length > 2 || sideA.length !== sideB.length) {
+        setError('Match play needs two sides of one or two players each');
+        return false;
+      }
+
+      if (!matchState.decided) {
+        setError(`The match isn't finished yet (${formatMatchStatus(matchState)})`);
+        return false;
+      }
+    }
+
+    // Every hole needs a score or an explicit pickup; a match can end early
+    if (format !== 'match' && format !== 'scramble') {
+      for (const uid of selectedPlayers) {
+        const missing = holePars.findIndex((_, i) => !(scores[uid]?.[i] > 0) && !isPickedUp(uid, i));
+        if (missing !== -1) {
+          setError(`${getPlayerName(uid)} has no score on hole ${missing + 1}. Enter one or mark it picked up (X)`);
+          return false;
+        }
+      }
+    }
+
+    if (format === 'stroke' && selectedPlayers.length > 1 && formatResult.standings.every(standing => standing.incomplete)) {
+      setError('Every card has a pickup, so nobody has a stroke play total. Try Stableford or match play instead');
+      return false;
+    }
+
+    if (showPlayoff && formatResult.tied) {
+      setError("The playoff hasn't separated the tied players yet. Add playoff holes or choose a shared win");
+      return false;
+    }
+
+    if (isTeamFormat && teamCards.length < 2) {
+      setError('Team formats need at least two teams with players');
+      return false;
+    }
+
+    if (format === 'scramble' && (skinsEnabled || nassauEnabled || wolfEnabled || pointGamesEnabled)) {
+      setError("Side games need individual scores, so they can't be played in a scramble");
+      return false;
+    }
+
+    if (skinsEnabled) {
+      if (selectedPlayers.length < 2) {
+        setError('Skins needs at least two players');
+        return false;
+      }
+    }
+
+    if (pointGamesEnabled) {
+      if (selectedPlayers.length < 2) {
+        setError('Point games need at least two players');
+        return false;
+      }
+
+      if (getEnabledEvents(pointGamesOptions).length === 0) {
+        setError('Pick Bingo Bango Bongo, Dots or both');
+        return false;
+      }
+    }
+
+    if (wolfEnabled && selectedPlayers.length !== WOLF_PLAYERS) {
+      setError(`Wolf is played by a foursome; ${selectedPlayers.length} players are selected`);
+      return false;
+    }
+
+    if (nassauEnabled) {
+      if (holeCount !== 18) {
+        setError('A Nassau needs an 18-hole round');
+        return false;
+      }
+
+      if (sideA.length === 0 || sideA.length > 2 || sideA.length !== sideB.length) {
+        setError('A Nassau needs two sides of one or two players each');
+        return false;
+      }
+    }
+
+    // Validate scores; scramble players don't have individual scores
+    for (const uid of format === 'scramble' ? [] : selectedPlayers) {
       if (!scores[uid] || scores[uid].length === 0) {
         setError('Please enter scores for all selected players');
         return false;
@@ -124,6 +730,88 @@ const NewRound: React.FC = () => {
     return true;
   };
 
+  // The round as it stands, saved as a draft while scoring and again when finished
+  const buildRoundData = (course: Course): Omit<Round, 'id' | 'createdAt' | 'status'> => {
+    const match = format === 'match' ? buildMatchResult(sideA, sideB, matchHoles, holeCount) : null;
+    // A halved match has no winner, and team formats name winning teams instead
+    const winners = match ? match.winners : isTeamFormat ? [] : formatResult.winners;
+    const winningTeams = isTeamFormat ? formatResult.winners : [];
+    const playoff = scoringInput.config.playoff!.filter(entry => tiedLeaders.some(standing => standing.id === entry.id));
+    const starter = createdBy || currentUser?.uid;
+
+    return {
+      courseId: course.id!,
+      courseName: course.name,
+      course,
+      date: roundDate,
+      players: selectedPlayers,
+      scores: format === 'scramble' ? [] : selectedPlayers.map(uid => {
+        const tee = getPlayerTee(uid);
+        return {
+          uid,
+          holes: scores[uid],
+          ...getPlayerCard(uid),
+          ...(getPickedUp(uid).length > 0 ? { pickedUp: getPickedUp(uid) } : {}),
+          ...(getPlayerDetails(uid) ? { details: getPlayerDetails(uid)! } : {}),
+          ...(tee ? { tee: toRoundTee(tee, coursePar) } : {}),
+          ...(format === 'stableford'
+            ? { points: getStanding(uid)!.holes, totalPoints: getStanding(uid)!.total }
+            : {})
+        };
+      }),
+      scoringMode,
+      format,
+      ...(format === 'stableford' ? { stablefordVariant } : {}),
+      ...(match ? { match } : {}),
+      ...(skinsResult ? { skins: skinsResult } : {}),
+      ...(nassauResult ? { nassau: nassauResult } : {}),
+      ...(wolfResult ? { wolf: wolfResult } : {}),
+      ...(pointGamesResult ? { pointGames: pointGamesResult } : {}),
+      ...(isTeamFormat ? { teams: teamCards } : {}),
+      ...(format === 'scramble' ? { teamHandicapPercents: teamPercents } : {}),
+      ...(winners.length > 0 ? { winners } : {}),
+      ...(winners.length > 0 && (match || !formatResult.tied) ? { winner: winners[0] } : {}),
+      ...(winningTeams.length > 0 ? { winningTeams } : {}),
+      ...(winningTeams.length === 1 ? { winningTeam: winningTeams[0] } : {}),
+      ...(!match && formatResult.tied ? { tied: true } : {}),
+      ...(!match ? { tieBreak } : {}),
+      ...(showPlayoff ? { playoff } : {}),
+      ...(formatResult.decidedBy ? { decidedBy: formatResult.decidedBy } : {}),
+      holeCount,
+      par: holePars.reduce((sum, par) => sum + par, 0),
+      location: course.location || { address: '', lat: 0, lng: 0 },
+      ...(starter ? { createdBy: starter } : {})
+    };
+  };
+
+  const getRoundSetup = (): RoundSetup => ({
+    playerTees,
+    matchSides,
+    skinsEnabled,
+    skinsOptions,
+    nassauEnabled,
+    nassauOptions,
+    nassauPresses,
+    teamCount,
+    playerTeams,
+    teamNames,
+    teamScores,
+    scramblePercents,
+    wolfEnabled,
+    wolfMode,
+    wolfDecisions,
+    pointGamesEnabled,
+    pointGamesOptions,
+    pointEvents,
+    trackHoleStats,
+    holeDetails,
+    trackShots,
+    shots: getLoggedShots(),
+    tieBreak,
+    playoffScores,
+    playoffHoleCount
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -135,29 +823,16 @@ const NewRound: React.FC = () => {
     setError(null);
     
     try {
-      const winner = getWinner();
-      const roundData = {
-        courseId: selectedCourse.id!,
-        courseName: selectedCourse.name,
-        course: selectedCourse,
-        date: roundDate,
-        players: selectedPlayers,
-        scores: selectedPlayers.map(uid => ({
-          uid,
-          holes: scores[uid]
-        })),
-        winner: winner.uid,
-        holeCount: selectedCourse.holes || 18,
-        par: selectedCourse.par || 72,
-        location: selectedCourse.location || { address: '', lat: 0, lng: 0 },
-        createdAt: new Date()
-      };
-
-      await createRound(roundData);
+      // Let an autosave still in flight land first so it can't reopen the round
+      await saveQueueRef.current;
+      await finishRound(draftIdRef.current, buildRoundData(selectedCourse), getLoggedShots(), lastLiveRef.current);
+      // Stats were re-aggregated with the round, so pick up the new totals
+      await refreshUserProfile();
       navigate('/');
     } catch (error) {
       console.error('Error creating round:', error);
-      setError('Failed to save round. Please try again.');
+      // Late live scores are already on the card via the subscription, so the user only needs to look again
+      setError(error instanceof Error && error.message === LIVE_SCORES_CHANGED ? LIVE_SCORES_CHANGED : 'Failed to save round. Please try again.');
     } finally {
       setSaving(false);
     }
@@ -181,7 +856,44 @@ const NewRound: React.FC = () => {
                (course.location?.address && course.location.address.toLowerCase().includes(query.toLowerCase()));
       });
 
-  if (loading || coursesLoading) {
+  // Nothing is saved until the first score goes in, so setting up a round
+  // that never gets played doesn't leave a draft behind
+  const hasScores = selectedPlayers.some(uid => scores[uid]?.some(score => score > 0) || getPickedUp(uid).length > 0) ||
+    Object.values(teamScores).some(holes => holes.some(score => score > 0));
+  const draftData = !loading && !resuming && !saving && selectedCourse && selectedPlayers.length > 0 &&
+    (hasScores || draftIdRef.current)
+    ? JSON.stringify({ ...buildRoundData(selectedCourse), setup: getRoundSetup() })
+    : null;
+
+  // Autosave the round in progress once changes settle. Saves are queued so the
+  // first one has created the draft before the next tries to update it.
+  useEffect(() => {
+    if (!draftData) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        try {
+          const roundId = await saveDraftRound(draftIdRef.current, JSON.parse(draftData));
+          if (!draftIdRef.current) {
+            draftIdRef.current = roundId;
+            setLiveRoundId(roundId);
+            setSearchParams({ roundId }, { replace: true });
+          }
+          setLastSaved(new Date());
+          setAutosaveFailed(false);
+        } catch (error) {
+          console.error('Error autosaving round:', error);
+          setAutosaveFailed(true);
+        }
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [draftData, setSearchParams]);
+
+  if (loading || coursesLoading || resuming) {
     return <LoadingSpinner />;
   }
 
@@ -351,7 +1063,7 @@ const NewRound: React.FC = () => {
               )}
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               <div>
                 <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-2">
                   Date <span className="text-red-500">*</span>
@@ -380,6 +1092,73 @@ const NewRound: React.FC = () => {
                   <option value={18}>18 Holes</option>
                 </select>
               </div>
+
+              <div>
+                <label htmlFor="scoring-mode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Scoring
+                </label>
+                <select
+                  id="scoring-mode"
+                  value={scoringMode}
+                  onChange={(e) => setScoringMode(e.target.value as ScoringMode)}
+                  className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="gross">Gross (lowest strokes)</option>
+                  <option value="net">Net (with handicaps)</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="format" className="block text-sm font-medium text-gray-700 mb-2">
+                  Game
+                </label>
+                <select
+                  id="format"
+                  value={format}
+                  onChange={(e) => handleFormatChange(e.target.value as GameFormat)}
+                  className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {FORMAT_LIST.map(definition => (
+                    <option key={definition.id} value={definition.id}>{definition.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {formatDefinition.configFields.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={`format-${field.key}`} className="block text-sm font-medium text-gray-700 mb-2">
+                    {field.label}
+                  </label>
+                  <select
+                    id={`format-${field.key}`}
+                    value={String(scoringInput.config[field.key] ?? field.options[0].value)}
+                    onChange={(e) => handleConfigChange(field.key, e.target.value)}
+                    className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {field.options.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              {format !== 'match' && (
+                <div>
+                  <label htmlFor="tie-break" className="block text-sm font-medium text-gray-700 mb-2">
+                    Ties
+                  </label>
+                  <select
+                    id="tie-break"
+                    value={tieBreak}
+                    onChange={(e) => setTieBreak(e.target.value as TieBreak)}
+                    className="input-field focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {TIE_BREAK_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
 
@@ -438,97 +1217,398 @@ const NewRound: React.FC = () => {
             )}
           </div>
 
+          {/* Team Builder */}
+          {isTeamFormat && selectedPlayers.length > 0 && (
+            <TeamBuilder
+              teams={teamDrafts}
+              teamCount={teamCount}
+              teamNames={teamNames}
+              getPlayerName={getPlayerName}
+              onTeamCountChange={setTeamCount}
+              onTeamNameChange={handleTeamNameChange}
+              onPlayerTeamChange={handlePlayerTeamChange}
+              scramblePercents={format === 'scramble' ? teamPercents : undefined}
+              largestTeam={largestTeam}
+              onScramblePercentChange={handleScramblePercentChange}
+              onResetScramblePercents={() => setScramblePercents(null)}
+            />
+          )}
+
+          {/* Side Games */}
+          <div className="card hover:shadow-lg transition-all duration-300">
+            <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+              <span className="mr-2">💰</span>
+              Side Games
+            </h2>
+
+            <div className="space-y-6">
+              <SkinsSetup
+                enabled={skinsEnabled}
+                options={skinsOptions}
+                onEnabledChange={setSkinsEnabled}
+                onOptionChange={handleSkinsOptionChange}
+              />
+              <NassauSetup
+                enabled={nassauEnabled}
+                options={nassauOptions}
+                onEnabledChange={setNassauEnabled}
+                onOptionChange={handleNassauOptionChange}
+              />
+              <WolfSetup
+                enabled={wolfEnabled}
+                mode={wolfMode}
+                onEnabledChange={setWolfEnabled}
+                onModeChange={setWolfMode}
+              />
+              <PointGamesSetup
+                enabled={pointGamesEnabled}
+                options={pointGamesOptions}
+                onEnabledChange={setPointGamesEnabled}
+                onOptionChange={handlePointGamesOptionChange}
+              />
+            </div>
+          </div>
+
           {/* Scoring */}
           {selectedPlayers.length >= 1 && (
             <div className="card hover:shadow-lg transition-all duration-300">
-              <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
-                <span className="mr-2">📊</span>
-                Scorecard
-              </h2>
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <span className="mr-2">📊</span>
+                  Scorecard
+                </h2>
+                {format !== 'scramble' && (
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={trackHoleStats}
+                      onChange={(e) => setTrackHoleStats(e.target.checked)}
+                      className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    <span className="text-sm font-medium text-gray-900">Track putts, fairways & more</span>
+                  </label>
+                )}
+                {format !== 'scramble' && (
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={trackShots}
+                      onChange={(e) => setTrackShots(e.target.checked)}
+                      className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    <span className="text-sm font-medium text-gray-900">Log shots</span>
+                  </label>
+                )}
+              </div>
+
+              {liveRoundId && format !== 'scramble' && (
+                <div className="mb-6 px-4 py-3 rounded-lg bg-blue-50 text-sm text-blue-800 flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    📱 Live round: players can score their own card on their phone
+                    {joined.length > 0 && ` · ${joined.map(getPlayerName).join(', ')} joined`}
+                  </span>
+                  <span className="flex items-center gap-4">
+                    <button
+                      type="button"
+                      onClick={handleCopyLiveLink}
+                      className="text-sm text-green-600 hover:text-green-800 font-medium"
+                    >
+                      {linkCopied ? 'Link copied' : 'Copy link'}
+                    </button>
+                    <a
+                      href={`/live/${liveRoundId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-green-600 hover:text-green-800 font-medium"
+                    >
+                      Leaderboard
+                    </a>
+                  </span>
+                </div>
+              )}
+
+              {format === 'match' && (
+                <div className={`mb-6 px-4 py-3 rounded-lg text-lg font-semibold ${
+                  matchState.decided ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-800'
+                }`}>
+                  {getMatchStatusText()}
+                </div>
+              )}
               
-              <div className="overflow-x-auto">
-                <div className="min-w-max">
-                  {/* Header */}
-                  <div className="grid grid-cols-1 gap-4 mb-6">
-                    <div className="flex items-center space-x-4">
-                      <div className="w-32"></div>
-                      {selectedPlayers.map(uid => {
-                        const user = allUsers.find(u => u.uid === uid);
-                        return (
-                          <div key={uid} className="flex items-center space-x-3">
-                            {user?.photoURL ? (
-                              <img
-                                src={user.photoURL}
-                                alt={user.name}
-                                className="w-8 h-8 rounded-full border-2 border-gray-200"
-                              />
-                            ) : (
-                              <div className="w-8 h-8 bg-gradient-to-br from-gray-300 to-gray-400 rounded-full flex items-center justify-center border-2 border-gray-200">
-                                <span className="text-gray-600 text-sm font-bold">
-                                  {user?.name.charAt(0).toUpperCase()}
+              {format === 'scramble' ? (
+                <TeamScorecard
+                  teams={teamCards}
+                  holePars={holePars}
+                  getPlayerName={getPlayerName}
+                  showNet={scoringMode === 'net'}
+                  onScoreChange={handleTeamScoreChange}
+                />
+              ) : (
+                <div className="overflow-x-auto">
+                  <div className="min-w-max">
+                    {/* Header */}
+                    <div className="grid grid-cols-1 gap-4 mb-6">
+                      <div className="flex items-center space-x-4">
+                        <div className="w-32"></div>
+                        {selectedPlayers.map(uid => {
+                          const user = allUsers.find(u => u.uid === uid);
+                          return (
+                            <div key={uid} className="flex items-center space-x-3">
+                              {user?.photoURL ? (
+                                <img
+                                  src={user.photoURL}
+                                  alt={user.name}
+                                  className="w-8 h-8 rounded-full border-2 border-gray-200"
+                                />
+                              ) : (
+                                <div className="w-8 h-8 bg-gradient-to-br from-gray-300 to-gray-400 rounded-full flex items-center justify-center border-2 border-gray-200">
+                                  <span className="text-gray-600 text-sm font-bold">
+                                    {user?.name.charAt(0).toUpperCase()}
+                                  </span>
+                                </div>
+                              )}
+                              <div className="min-w-0">
+                                <span className="block text-sm font-medium text-gray-900 truncate">
+                                  {user?.name}
                                 </span>
+                                {scoringMode === 'net' && (
+                                  <span className="block text-xs text-gray-500">
+                                    Course handicap {getPlayerCard(uid).courseHandicap}
+                                  </span>
+                                )}
+                                {(format === 'match' || nassauEnabled) && (
+                                  <select
+                                    value={getPlayerSide(uid)}
+                                    onChange={(e) => handleSideChange(uid, e.target.value as MatchSide)}
+                                    className={`mt-1 mr-1 py-0.5 pl-2 pr-7 text-xs rounded-md focus:ring-green-500 focus:border-green-500 ${
+                                      getPlayerSide(uid) === 'A' ? 'border-blue-300 text-blue-700' : 'border-red-300 text-red-700'
+                                    }`}
+                                    aria-label={`Match side for ${user?.name}`}
+                                  >
+                                    <option value="A">Side A</option>
+                                    <option value="B">Side B</option>
+                                  </select>
+                                )}
+                                {courseTees.length > 0 && (
+                                  <select
+                                    value={getPlayerTee(uid)?.id}
+                                    onChange={(e) => handleTeeChange(uid, e.target.value)}
+                                    className="mt-1 py-0.5 pl-2 pr-7 text-xs border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                                    aria-label={`Tees played by ${user?.name}`}
+                                  >
+                                    {courseTees.map(tee => (
+                                      <option key={tee.id} value={tee.id}>{tee.name}</option>
+                                    ))}
+                                  </select>
+                                )}
                               </div>
-                            )}
-                            <span className="text-sm font-medium text-gray-900 min-w-0 truncate">
-                              {user?.name}
-                            </span>
-                          </div>
-                        );
-                      })}
-                      <div className="w-20 text-center text-sm font-medium text-gray-700">
-                        Total
+                            </div>
+                          );
+                        })}
+                        <div className="w-20 text-center text-sm font-medium text-gray-700">
+                          {format === 'match' ? 'Match' : 'Total'}
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Score inputs */}
-                  <div className="space-y-4">
-                    {Array.from({ length: holeCount }, (_, i) => (
-                      <div key={i} className="flex items-center space-x-4">
-                        <div className="w-32 text-sm font-medium text-gray-700 bg-gray-50 px-3 py-2 rounded-lg">
-                          Hole {i + 1}
-                        </div>
-                        {selectedPlayers.map(uid => (
-                          <div key={uid} className="flex justify-center">
-                            <ScoreInput
-                              value={scores[uid]?.[i] || 0}
-                              onChange={(score) => handleScoreChange(uid, i, score)}
-                              holeNumber={i + 1}
+                    {/* Score inputs */}
+                    <div className="space-y-4">
+                      {Array.from({ length: holeCount }, (_, i) => (
+                        <div key={i} className="flex items-center space-x-4">
+                          <div className="w-32 text-sm font-medium text-gray-700 bg-gray-50 px-3 py-2 rounded-lg">
+                            Hole {i + 1}
+                            <span className="block text-xs font-normal text-gray-500">Par {holePars[i]}</span>
+                            <HoleSideGames
+                              holeIndex={i}
+                              getPlayerName={getPlayerName}
+                              skinsHole={skinsResult?.holes[i]}
+                              wolf={wolfResult ? getWolf(selectedPlayers, i) : undefined}
+                              players={selectedPlayers}
+                              wolfDecision={getWolfDecisionValue(i)}
+                              onWolfDecisionChange={(value) => handleWolfDecision(i, value)}
+                              pressed={nassauPresses.includes(i)}
+                              onPressToggle={nassauEnabled && nassauOptions.presses === 'manual' && i % 9 !== 0
+                                ? () => handlePressToggle(i)
+                                : undefined}
                             />
                           </div>
-                        ))}
-                        <div className="w-20"></div>
-                      </div>
-                    ))}
-                  </div>
-
-                  {/* Totals */}
-                  <div className="flex items-center space-x-4 mt-8 pt-6 border-t-2 border-gray-200">
-                    <div className="w-32 text-lg font-bold text-gray-900 bg-gray-100 px-3 py-2 rounded-lg">
-                      Total
-                    </div>
-                    {selectedPlayers.map(uid => (
-                      <div key={uid} className="flex justify-center">
-                        <div className="text-xl font-bold text-green-600 bg-green-50 px-4 py-2 rounded-lg">
-                          {calculateTotalScore(uid)}
+                          {selectedPlayers.map(uid => (
+                            <div key={uid} className="flex justify-center">
+                              <div className="flex flex-col items-center">
+                                <div
+                                  className={overwritten[getCellKey(uid, i)] ? 'rounded-lg ring-2 ring-amber-400' : ''}
+                                  title={overwritten[getCellKey(uid, i)] ? `Changed by ${getPlayerName(overwritten[getCellKey(uid, i)])}` : undefined}
+                                >
+                                  <ScoreInput
+                                    value={scores[uid]?.[i] || 0}
+                                    onChange={(score) => handleScoreChange(uid, i, score)}
+                                    holeNumber={i + 1}
+                                    par={holePars[i]}
+                                    disabled={isScoredElsewhere(uid) || (trackShots && getHoleShots(uid, i).length > 0)}
+                                    pickedUp={isPickedUp(uid, i)}
+                                    onPickUpChange={(picked) => handlePickUpChange(uid, i, picked)}
+                                  />
+                                </div>
+                                {scoringMode === 'net' && (
+                                  <div className="flex items-center gap-1 mt-0.5 min-h-[0.75rem]">
+                                    <StrokeDots strokes={receivedStrokes[uid]?.[i] || 0} />
+                                    {(scores[uid]?.[i] || 0) > 0 && (
+                                      <span className="text-[10px] font-semibold text-blue-600">
+                                        Net {scores[uid][i] - (receivedStrokes[uid]?.[i] || 0)}
+                                      </span>
+                                    )}
+                                  </div>
+                                )}
+                                {trackShots && !isScoredElsewhere(uid) && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setShotTarget({ uid, hole: i })}
+                                    className="mt-1 px-2 py-0.5 text-[10px] font-semibold rounded bg-gray-100 text-gray-600 hover:bg-green-100"
+                                  >
+                                    {getHoleShots(uid, i).length > 0 ? `${getHoleShots(uid, i).length} shots` : 'Shots'}
+                                  </button>
+                                )}
+                                {trackHoleStats && (
+                                  <HoleStatsPanel
+                                    detail={holeDetails[uid]?.[i] || {}}
+                                    score={scores[uid]?.[i] || 0}
+                                    par={holePars[i]}
+                                    onChange={(detail) => handleHoleDetailChange(uid, i, detail)}
+                                  />
+                                )}
+                                {pointGamesEnabled && (
+                                  <HoleEventToggles
+                                    events={getEnabledEvents(pointGamesOptions)}
+                                    isActive={(event) => hasEvent(pointEvents, i, uid, event)}
+                                    onToggle={(event) => handlePointEventToggle(i, uid, event)}
+                                  />
+                                )}
+                              </div>
+                              {format === 'stableford' && (scores[uid]?.[i] || 0) > 0 && (
+                                <span className="ml-2 self-center text-xs font-semibold text-indigo-600">
+                                  {getStanding(uid)?.holes[i]} pts
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                          <div className="w-20 text-center text-xs font-semibold">
+                            {format === 'match' && i < matchLeads.length && (
+                              <span className={getLeadColor(matchLeads[i])}>
+                                {formatRunningLead(matchLeads[i])}
+                              </span>
+                            )}
+                          </div>
                         </div>
+                      ))}
+                    </div>
+
+                    {/* Totals */}
+                    <div className="flex items-center space-x-4 mt-8 pt-6 border-t-2 border-gray-200">
+                      <div className="w-32 text-lg font-bold text-gray-900 bg-gray-100 px-3 py-2 rounded-lg">
+                        Total
                       </div>
-                    ))}
-                    <div className="w-20"></div>
+                      {selectedPlayers.map(uid => (
+                        <div key={uid} className="flex justify-center">
+                          <div className="text-xl font-bold text-green-600 bg-green-50 px-4 py-2 rounded-lg text-center">
+                            {sumHoles(scores[uid] || [])}
+                            <span className="block text-xs font-medium text-gray-500">
+                              {formatToPar(getToPar(scores[uid] || [], holePars))}
+                            </span>
+                            {getPickedUp(uid).length > 0 && (
+                              <span className="block text-xs font-medium text-amber-600">
+                                Incomplete · {getPickedUp(uid).length} X
+                              </span>
+                            )}
+                            {scoringMode === 'net' && (
+                              <span className="block text-xs font-medium text-blue-600">
+                                Net {getPlayerCard(uid).net}
+                              </span>
+                            )}
+                            {format === 'stableford' && (
+                              <span className="block text-xs font-medium text-indigo-600">
+                                {getStanding(uid)?.total} pts
+                              </span>
+                            )}
+                            {getPlayerSkins(uid) && (
+                              <span className={`block text-xs font-medium ${getMoneyColor(getPlayerSkins(uid)!.amount)}`}>
+                                {getPlayerSkins(uid)!.skins} skins · {formatMoney(getPlayerSkins(uid)!.amount)}
+                              </span>
+                            )}
+                            {wolfResult && (
+                              <span className="block text-xs font-medium text-gray-700">
+                                🐺 {wolfResult.standings.find(standing => standing.uid === uid)?.points || 0} pts
+                              </span>
+                            )}
+                            {getPlayerPointGames(uid) && (
+                              <span className={`block text-xs font-medium ${getMoneyColor(getPlayerPointGames(uid)!.amount)}`}>
+                                🎯 {getPlayerPointGames(uid)!.points} pts
+                                {pointGamesOptions.value > 0 && ` · ${formatMoney(getPlayerPointGames(uid)!.amount)}`}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      <div className="w-20"></div>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
+            </div>
+          )}
+
+          {showPlayoff && (
+            <PlayoffCard
+              standings={tiedLeaders}
+              holeCount={playoffHoleCount}
+              scores={playoffScores}
+              status={formatResult.tied
+                ? 'Still level'
+                : `${getStanding(formatResult.winners[0])?.name || getPlayerName(formatResult.winners[0])} wins`}
+              getSideName={getSideName}
+              onScoreChange={handlePlayoffScoreChange}
+              onAddHole={() => setPlayoffHoleCount(count => count + 1)}
+            />
+          )}
+
+          {isTeamFormat && teamCards.length > 0 && (
+            <div className="card hover:shadow-lg transition-all duration-300">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Team Standings</h2>
+              <TeamResults
+                teams={teamCards}
+                winningTeams={formatResult.winners}
+                mode={scoringMode}
+                getPlayerName={getPlayerName}
+              />
+            </div>
+          )}
+
+          {wolfResult && (
+            <div className="card hover:shadow-lg transition-all duration-300">
+              <WolfStandings wolf={wolfResult} getPlayerName={getPlayerName} />
+            </div>
+          )}
+
+          {nassauResult && selectedPlayers.length > 1 && (
+            <div className="card hover:shadow-lg transition-all duration-300">
+              <NassauBreakdown nassau={nassauResult} getPlayerName={getPlayerName} />
             </div>
           )}
 
           {/* Submit */}
-          <div className="flex justify-end space-x-4">
+          <div className="flex items-center justify-end space-x-4">
+            {autosaveFailed ? (
+              <span className="text-sm text-red-600">Autosave failed; your scores are still here</span>
+            ) : lastSaved && (
+              <span className="text-sm text-gray-500">
+                Saved {lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} · finish any time
+              </span>
+            )}
             <button
               type="button"
               onClick={() => navigate('/')}
               className="px-6 py-3 bg-white border-2 border-gray-200 text-gray-700 font-semibold rounded-xl hover:border-gray-300 hover:bg-gray-50 transition-all duration-200"
             >
-              Cancel
+              {draftIdRef.current ? 'Finish Later' : 'Cancel'}
             </button>
             <button
               type="submit"
@@ -538,18 +1618,30 @@ const NewRound: React.FC = () => {
               {saving ? (
                 <div className="flex items-center space-x-2">
                   <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  <span>Saving...</span>
+                  <span>Finishing...</span>
                 </div>
               ) : (
                 <div className="flex items-center space-x-2">
-                  <span>💾</span>
-                  <span>Save Round</span>
+                  <span>🏁</span>
+                  <span>Finish Round</span>
                 </div>
               )}
             </button>
           </div>
         </form>
       </div>
+
+      {trackShots && shotTarget && (
+        <ShotLogger
+          key={`${shotTarget.uid}-${shotTarget.hole}`}
+          playerName={getPlayerName(shotTarget.uid)}
+          holeNumber={shotTarget.hole + 1}
+          par={holePars[shotTarget.hole]}
+          shots={getHoleShots(shotTarget.uid, shotTarget.hole)}
+          onChange={(shots) => handleShotsChange(shotTarget.uid, shotTarget.hole, shots)}
+          onClose={() => setShotTarget(null)}
+        />
+      )}
     </div>
   );
 };
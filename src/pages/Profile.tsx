@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import Navigation from '../components/Navigation';
 import { useAuth } from '../contexts/AuthContext';
 import { updateUser } from '../utils/firebase';
+import { getPlayingIndex } from '../utils/handicap';
+import { EMPTY_HOLE_STATS, formatRate } from '../utils/holeStats';
 
 const Profile: React.FC = () => {
   const { userProfile, currentUser, refreshUserProfile } = useAuth();
@@ -40,6 +42,18 @@ const Profile: React.FC = () => {
     }
   };
 
+  const computedIndex = userProfile?.handicapIndex ?? null;
+  const holeStats = { ...EMPTY_HOLE_STATS, ...userProfile?.stats };
+  const handicapHistory = [...(userProfile?.handicapHistory || [])].reverse();
+
+  const formatRevisionDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
   const handleCancel = () => {
     setName(userProfile?.name || '');
     setHomeCourse(userProfile?.homeCourse || '');
@@ -164,10 +178,27 @@ const Profile: React.FC = () => {
                   )}
                 </div>
 
-                {/* Handicap */}
+                {/* Handicap Index */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Handicap Index
+                  </label>
+                  <p className="text-gray-900">
+                    {computedIndex !== null
+                      ? computedIndex.toFixed(1)
+                      : getPlayingIndex(userProfile) !== null
+                        ? `${getPlayingIndex(userProfile)} (starting handicap)`
+                        : 'Not enough rounds yet'}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Calculated from your best 8 of your last 20 score differentials
+                  </p>
+                </div>
+
+                {/* Starting Handicap */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Handicap
+                    Starting Handicap
                   </label>
                   {isEditing ? (
                     <input
@@ -178,13 +209,16 @@ const Profile: React.FC = () => {
                       value={handicap}
                       onChange={(e) => setHandicap(e.target.value)}
                       className="input-field"
-                      placeholder="Enter your handicap"
+                      placeholder="Optional"
                     />
                   ) : (
                     <p className="text-gray-900">
                       {userProfile?.handicap ? `${userProfile.handicap}` : 'Not specified'}
                     </p>
                   )}
+                  <p className="text-sm text-gray-500">
+                    Used until you've posted at least 3 scores
+                  </p>
                 </div>
 
                 {/* Email */}
@@ -258,6 +292,45 @@ const Profile: React.FC = () => {
               </div>
             </div>
 
+            {/* Handicap History */}
+            <div className="card mt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Handicap History
+              </h3>
+              {handicapHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Your index will appear here once you've posted scores
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  {handicapHistory.map((revision, i) => {
+                    const previous = handicapHistory[i + 1]?.index;
+                    const change = revision.index !== null && previous !== undefined && previous !== null
+                      ? Math.round((revision.index - previous) * 10) / 10
+                      : 0;
+                    return (
+                      <div key={`${revision.roundId}-${i}`} className="flex justify-between items-center text-sm">
+                        <div>
+                          <p className="text-gray-900">{formatRevisionDate(revision.date)}</p>
+                          <p className="text-xs text-gray-500">Differential {revision.differential.toFixed(1)}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold text-gray-900">
+                            {revision.index !== null ? revision.index.toFixed(1) : '-'}
+                          </p>
+                          {change !== 0 && (
+                            <p className={`text-xs ${change < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {change > 0 ? `+${change.toFixed(1)}` : change.toFixed(1)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
             {/* Quick Stats */}
             <div className="card mt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -293,6 +366,53 @@ const Profile: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {/* Hole Stats */}
+            <div className="card mt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Hole Stats
+              </h3>
+              {holeStats.trackedHoles === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Track putts, fairways and more on the scorecard to see your percentages here
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Fairways Hit</span>
+                    <span className="font-semibold">{formatRate(holeStats.fairwaysHit, holeStats.fairwayHoles)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500 pl-3">Missed Left / Right</span>
+                    <span className="text-gray-700">
+                      {formatRate(holeStats.fairwaysLeft, holeStats.fairwayHoles)} / {formatRate(holeStats.fairwaysRight, holeStats.fairwayHoles)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Greens in Regulation</span>
+                    <span className="font-semibold">{formatRate(holeStats.greensHit, holeStats.puttHoles)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Putts per Hole</span>
+                    <span className="font-semibold">
+                      {holeStats.puttHoles ? (holeStats.putts / holeStats.puttHoles).toFixed(2) : '–'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Holes with a Penalty</span>
+                    <span className="font-semibold">{formatRate(holeStats.penaltyHoles, holeStats.trackedHoles)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Up and Downs</span>
+                    <span className="font-semibold">{formatRate(holeStats.upAndDowns, holeStats.upAndDownChances)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Sand Saves</span>
+                    <span className="font-semibold">{formatRate(holeStats.sandSaves, holeStats.sandSaveChances)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,441 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllUsers, getRound, getRoundEdits, getRoundShots, HoleShots, Round, RoundChange, RoundEdit, User } from '../utils/firebase';
+import { getRoundFormatLabel, getWinnerLabel } from '../utils/formats';
+import { formatToPar, getHolePars, getScoreColor } from '../utils/scorecard';
+import { getIndividualWinners, getToPar, getWinningTeamIds, sumHoles } from '../utils/scoring';
+import { getRoundWinningTeams } from '../utils/teams';
+import { normalizeRound } from '../utils/stats';
+import { canEditRound } from '../utils/roundEdits';
+import { describeShot, getShotScore } from '../utils/shots';
+
+// One saved round with its full hole-by-hole scorecard. Deep-linkable, so a
+// round can be shared by pasting its URL.
+const RoundDetail: React.FC = () => {
+  const { roundId } = useParams<{ roundId: string }>();
+  const { currentUser } = useAuth();
+  const [round, setRound] = useState<Round | null>(null);
+  const [edits, setEdits] = useState<RoundEdit[]>([]);
+  const [editsError, setEditsError] = useState<string | null>(null);
+  const [shots, setShots] = useState<HoleShots[]>([]);
+  const [shotsError, setShotsError] = useState<string | null>(null);
+  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!roundId) {
+        return;
+      }
+
+      try {
+        setError(null);
+        const [roundData, users] = await Promise.all([getRound(roundId), getAllUsers()]);
+        setRound(roundData ? normalizeRound(roundData) : null);
+        setAllUsers(users);
+      } catch (error) {
+        console.error('Error fetching round:', error);
+        setError('Failed to load the round. Please refresh the page.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [roundId]);
+
+  // The edit history is secondary, so it can fail without taking the scorecard with it
+  useEffect(() => {
+    if (!roundId) {
+      return;
+    }
+
+    setEditsError(null);
+    getRoundEdits(roundId)
+      .then(setEdits)
+      .catch(error => {
+        console.error('Error fetching edit history:', error);
+        setEditsError("Couldn't load the edit history. Please refresh the page.");
+      });
+  }, [roundId]);
+
+  // Shot logs are optional and kept in their own subcollection, so they load the same way
+  useEffect(() => {
+    if (!roundId) {
+      return;
+    }
+
+    setShotsError(null);
+    getRoundShots(roundId)
+      .then(setShots)
+      .catch(error => {
+        console.error('Error fetching shot logs:', error);
+        setShotsError("Couldn't load the shot logs. Please refresh the page.");
+      });
+  }, [roundId]);
+
+  const getPlayerName = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.name || 'Unknown Player';
+  };
+
+  const getPlayerPhoto = (uid: string) => {
+    const user = allUsers.find(u => u.uid === uid);
+    return user?.photoURL;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatScore = (score: string | string[]) => score || '–';
+
+  // One line of the edit history, e.g. "Sam, hole 4: 6 → 5"
+  const describeChange = (change: RoundChange) => {
+    if (change.field === 'players') {
+      const before = change.before as string[];
+      const after = change.after as string[];
+      const added = after.filter(uid => !before.includes(uid)).map(getPlayerName);
+      const removed = before.filter(uid => !after.includes(uid)).map(getPlayerName);
+      return [
+        ...(added.length > 0 ? [`Added ${added.join(', ')}`] : []),
+        ...(removed.length > 0 ? [`Removed ${removed.join(', ')}`] : [])
+      ].join('; ');
+    }
+    if (change.field === 'score') {
+      const whose = change.teamId
+        ? round?.teams?.find(team => team.id === change.teamId)?.name || 'Unknown Team'
+        : getPlayerName(change.uid || '');
+      return `${whose}, hole ${(change.hole || 0) + 1}: ${formatScore(change.before)} → ${formatScore(change.after)}`;
+    }
+    if (change.field === 'date') {
+      return `Date: ${formatDate(change.before as string)} → ${formatDate(change.after as string)}`;
+    }
+    return `Course: ${change.before} → ${change.after}`;
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!round) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+        <Navigation />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="card text-center py-12">
+            <p className="text-gray-700 mb-4">{error || 'Round not found.'}</p>
+            <Link to="/history" className="text-sm text-green-600 hover:text-green-800 font-medium">
+              Back to history
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const pars = getHolePars(round);
+  // Front and back nine on 18 holes; a 9-hole round is a single stretch
+  const segments = round.holeCount > 9
+    ? [{ label: 'Out', holes: pars.slice(0, 9).map((_, i) => i) }, { label: 'In', holes: pars.slice(9).map((_, i) => i + 9) }]
+    : [{ label: null, holes: pars.map((_, i) => i) }];
+  const isNet = round.scoringMode === 'net';
+  const isStableford = round.format === 'stableford';
+  const winners = getIndividualWinners(round);
+  const winningTeams = getRoundWinningTeams(round);
+  const isInProgress = round.status === 'in_progress';
+
+  const sumSegment = (holes: number[], segment: number[]) => sumHoles(segment.map(i => holes[i] || 0));
+
+  // A row of per-hole cells with a subtotal after each segment
+  const renderHoleCells = (holes: number[], pickedUp: number[] = [], colored = true) =>
+    segments.map(segment => (
+      <React.Fragment key={segment.label || 'all'}>
+        {segment.holes.map(i => (
+          <td key={i} className="px-1 py-2 text-center">
+            {pickedUp.includes(i) ? (
+              <span className="inline-block w-8 py-1 rounded border text-sm font-semibold bg-gray-100 text-gray-500 border-gray-300">X</span>
+            ) : (
+              <span className={`inline-block w-8 py-1 rounded border text-sm font-semibold ${
+                colored ? getScoreColor(holes[i] || 0, pars[i]) : 'border-transparent text-gray-900'
+              }`}>
+                {holes[i] || '–'}
+              </span>
+            )}
+          </td>
+        ))}
+        {segment.label && (
+          <td className="px-2 py-2 text-center text-sm font-bold text-gray-900 bg-gray-50">
+            {sumSegment(holes, segment.holes) || '–'}
+          </td>
+        )}
+      </React.Fragment>
+    ));
+
+  const getToParColor = (toPar: number) => {
+    if (toPar < 0) return 'text-red-600';
+    if (toPar === 0) return 'text-gray-900';
+    return 'text-blue-600';
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900">
+              {round.courseId ? (
+                <Link to={`/courses/${round.courseId}`} className="hover:text-green-700">
+                  {round.courseName}
+                </Link>
+              ) : (
+                round.courseName
+              )}
+            </h1>
+            <p className="text-gray-600 mt-1 text-lg">
+              {formatDate(round.date)} · {getRoundFormatLabel(round)} · {round.holeCount} holes
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            {!isInProgress && currentUser && canEditRound(round, currentUser.uid) && (
+              <Link to={`/rounds/${round.id}/edit`} className="text-sm text-green-600 hover:text-green-800 font-medium">
+                Edit
+              </Link>
+            )}
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="text-sm text-green-600 hover:text-green-800 font-medium"
+            >
+              {linkCopied ? 'Link copied' : 'Copy link'}
+            </button>
+            <Link to="/history" className="text-sm text-green-600 hover:text-green-800 font-medium">
+              All rounds
+            </Link>
+          </div>
+        </div>
+
+        {isInProgress && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            This round is still being played.{' '}
+            <Link to={`/live/${round.id}`} className="font-medium underline">
+              Follow the live leaderboard
+            </Link>
+          </div>
+        )}
+
+        {/* Winner */}
+        {!isInProgress && (winners.length > 0 || winningTeams.length > 0) && (
+          <div className="card">
+            <span className="text-sm text-gray-500">{getWinnerLabel(round)}</span>
+            <div className="flex flex-wrap items-center gap-4 mt-2">
+              {winners.map(uid => (
+                <Link
+                  key={uid}
+                  to={`/history?player=${uid}`}
+                  className="flex items-center space-x-2"
+                >
+                  {getPlayerPhoto(uid) ? (
+                    <img src={getPlayerPhoto(uid)} alt={getPlayerName(uid)} className="w-8 h-8 rounded-full" />
+                  ) : (
+                    <span className="w-8 h-8 bg-golf-green-100 rounded-full flex items-center justify-center text-sm font-bold text-golf-green-700">
+                      {getPlayerName(uid).charAt(0)}
+                    </span>
+                  )}
+                  <span className="text-lg font-semibold text-golf-green-600 hover:text-golf-green-800">
+                    🏆 {getPlayerName(uid)}
+                  </span>
+                </Link>
+              ))}
+              {winningTeams.map(team => (
+                <div key={team.id}>
+                  <span className="block text-lg font-semibold text-golf-green-600">🏆 {team.name}</span>
+                  <span className="block text-sm text-gray-500">{team.players.map(getPlayerName).join(', ')}</span>
+                </div>
+              ))}
+            </div>
+            {round.match && <p className="text-sm text-gray-600 mt-2">{round.match.result}</p>}
+            {round.decidedBy && <p className="text-sm text-gray-500 mt-1">{round.decidedBy}</p>}
+          </div>
+        )}
+
+        {/* Scorecard */}
+        <div className="card overflow-x-auto">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Scorecard</h2>
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs font-medium text-gray-500 uppercase">
+                <th className="px-2 py-2 text-left">Hole</th>
+                {segments.map(segment => (
+                  <React.Fragment key={segment.label || 'all'}>
+                    {segment.holes.map(i => (
+                      <th key={i} className="px-1 py-2 text-center">{i + 1}</th>
+                    ))}
+                    {segment.label && <th className="px-2 py-2 text-center bg-gray-50">{segment.label}</th>}
+                  </React.Fragment>
+                ))}
+                <th className="px-2 py-2 text-center">Total</th>
+                <th className="px-2 py-2 text-center">To Par</th>
+                {isNet && <th className="px-2 py-2 text-center">Net</th>}
+                {isStableford && <th className="px-2 py-2 text-center">Pts</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <tr className="bg-gray-50">
+                <td className="px-2 py-2 text-sm font-semibold text-gray-700">Par</td>
+                {renderHoleCells(pars, [], false)}
+                <td className="px-2 py-2 text-center text-sm font-bold text-gray-900">{sumHoles(pars)}</td>
+                <td />
+                {isNet && <td />}
+                {isStableford && <td />}
+              </tr>
+
+              {round.scores.map(score => {
+                const pickedUp = score.pickedUp || [];
+                const toPar = getToPar(score.holes, pars);
+                return (
+                  <tr key={score.uid}>
+                    <td className="px-2 py-2 whitespace-nowrap">
+                      <Link
+                        to={`/history?player=${score.uid}`}
+                        className="text-sm font-medium text-gray-900 hover:text-green-700"
+                      >
+                        {getPlayerName(score.uid)}
+                      </Link>
+                      {winners.includes(score.uid) && <span className="ml-1">🏆</span>}
+                    </td>
+                    {renderHoleCells(score.holes, pickedUp)}
+                    <td className="px-2 py-2 text-center text-sm font-bold text-gray-900">
+                      {sumHoles(score.holes)}
+                    </td>
+                    <td className={`px-2 py-2 text-center text-sm font-bold ${pickedUp.length > 0 ? 'text-gray-400' : getToParColor(toPar)}`}>
+                      {pickedUp.length > 0 ? 'Inc' : formatToPar(toPar)}
+                    </td>
+                    {isNet && (
+                      <td className="px-2 py-2 text-center text-sm font-semibold text-blue-600">
+                        {score.net ?? '–'}
+                      </td>
+                    )}
+                    {isStableford && (
+                      <td className="px-2 py-2 text-center text-sm font-semibold text-indigo-600">
+                        {score.totalPoints ?? '–'}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+
+              {(round.teams || []).map(team => (
+                <tr key={team.id} className="bg-golf-green-50">
+                  <td className="px-2 py-2 whitespace-nowrap">
+                    <span className="block text-sm font-semibold text-gray-900">
+                      {team.name}
+                      {getWinningTeamIds(round).includes(team.id) && <span className="ml-1">🏆</span>}
+                    </span>
+                    <span className="block text-xs text-gray-500">{team.players.map(getPlayerName).join(', ')}</span>
+                  </td>
+                  {renderHoleCells(team.holes)}
+                  <td className="px-2 py-2 text-center text-sm font-bold text-gray-900">{team.gross}</td>
+                  <td className={`px-2 py-2 text-center text-sm font-bold ${getToParColor(getToPar(team.holes, pars))}`}>
+                    {formatToPar(getToPar(team.holes, pars))}
+                  </td>
+                  {isNet && (
+                    <td className="px-2 py-2 text-center text-sm font-semibold text-blue-600">{team.net}</td>
+                  )}
+                  {isStableford && <td />}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Shot logs */}
+        {shotsError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{shotsError}</p>
+          </div>
+        )}
+        {shots.length > 0 && (
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Shot Log</h2>
+            <div className="space-y-6">
+              {round.players.filter(uid => shots.some(entry => entry.uid === uid)).map(uid => (
+                <div key={uid}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">{getPlayerName(uid)}</h3>
+                  <ul className="divide-y divide-gray-100">
+                    {shots.filter(entry => entry.uid === uid).map(entry => (
+                      <li key={entry.hole} className="py-2">
+                        <p className="text-sm font-medium text-gray-700">
+                          Hole {entry.hole + 1}
+                          <span className="ml-2 text-gray-500 font-normal">{getShotScore(entry.shots)} strokes</span>
+                        </p>
+                        <ol className="mt-1 space-y-0.5 list-decimal list-inside">
+                          {entry.shots.map((shot, i) => (
+                            <li key={i} className="text-sm text-gray-600">{describeShot(shot)}</li>
+                          ))}
+                        </ol>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Edit history */}
+        {editsError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{editsError}</p>
+          </div>
+        )}
+        {edits.length > 0 && (
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Edit History</h2>
+            <ul className="divide-y divide-gray-100">
+              {edits.map(edit => (
+                <li key={edit.id} className="py-3">
+                  <p className="text-sm font-medium text-gray-900">
+                    {getPlayerName(edit.by)}
+                    <span className="ml-2 text-gray-500 font-normal">
+                      {edit.at.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                    </span>
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {edit.changes.map((change, i) => (
+                      <li key={i} className="text-sm text-gray-600">{describeChange(change)}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoundDetail;
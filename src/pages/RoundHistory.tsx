@@ -1,8 +1,24 @@
 import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import Navigation from '../components/Navigation';
 import { useAuth } from '../contexts/AuthContext';
 import { getRounds, getAllUsers, Round, User } from '../utils/firebase';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { formatToPar, getHolePars, getScoreColor, getScoreLabel } from '../utils/scorecard';
+import { getReceivedStrokes, getRoundScoringInput, getWinnerLabel, scoreRound } from '../utils/formats';
+import { getIndividualWinners, getWinningTeamIds, getToPar, sumHoles } from '../utils/scoring';
+import { formatRunningLead, getLeadColor, getRunningLeads } from '../utils/matchPlay';
+import { describeSkinsHole, getSkinsHoleColor } from '../utils/skins';
+import { formatMoney, formatStake, getMoneyColor } from '../utils/money';
+import NassauBreakdown from '../components/NassauBreakdown';
+import TeamScorecard from '../components/TeamScorecard';
+import TeamResults from '../components/TeamResults';
+import { getRoundWinningTeams } from '../utils/teams';
+import { getPlayerAdjustedGross, getPlayerAdjustedHoles } from '../utils/handicap';
+import { describeWolfChoice, getWolfResultLabel } from '../utils/wolf';
+import WolfStandings from '../components/WolfStandings';
+import StrokeDots from '../components/StrokeDots';
+import { describePlayerEvents } from '../utils/pointGames';
 
 const RoundHistory: React.FC = () => {
   const { userProfile } = useAuth();
@@ -13,6 +29,10 @@ const RoundHistory: React.FC = () => {
   
   // Filters
   const [courseFilter, setCourseFilter] = useState('');
+  // Player links elsewhere land here as /history?player=<uid>, which holds
+  // until a name is typed into the filter
+  const [searchParams] = useSearchParams();
+  const [playerUid, setPlayerUid] = useState<string | null>(searchParams.get('player'));
   const [playerFilter, setPlayerFilter] = useState('');
   const [dateFilter, setDateFilter] = useState('');
 
@@ -45,7 +65,9 @@ const RoundHistory: React.FC = () => {
       });
     }
 
-    if (playerFilter) {
+    if (playerUid) {
+      filtered = filtered.filter(round => round.players.includes(playerUid));
+    } else if (playerFilter) {
       const targetUser = allUsers.find(user => 
         user.name.toLowerCase().includes(playerFilter.toLowerCase())
       );
@@ -63,7 +85,7 @@ const RoundHistory: React.FC = () => {
     }
 
     setFilteredRounds(filtered);
-  }, [rounds, allUsers, courseFilter, playerFilter, dateFilter]);
+  }, [rounds, allUsers, courseFilter, playerUid, playerFilter, dateFilter]);
 
   const getPlayerName = (uid: string) => {
     const user = allUsers.find(u => u.uid === uid);
@@ -84,9 +106,38 @@ const RoundHistory: React.FC = () => {
     });
   };
 
-  const getPlayerScore = (round: Round, uid: string) => {
-    const playerScore = round.scores.find(s => s.uid === uid);
-    return playerScore ? playerScore.holes.reduce((sum, score) => sum + score, 0) : 0;
+  // Each player's totals, strokes received and Stableford points, scored through
+  // the round's format like everywhere else. Match sides and teams have no
+  // standing per player, so their players keep the net total saved with them.
+  const getPlayerCards = (round: Round) => {
+    const input = getRoundScoringInput(round);
+    const { standings } = scoreRound(round.format, input);
+    const isStableford = round.format === 'stableford';
+
+    return Object.fromEntries(round.players.map(uid => {
+      const standing = standings.find(s => s.id === uid);
+      const holes = input.scores[uid];
+      return [uid, {
+        gross: sumHoles(holes),
+        toPar: getToPar(holes, input.pars),
+        net: standing ? standing.net : round.scores.find(s => s.uid === uid)?.net,
+        strokes: round.scoringMode === 'net' ? getReceivedStrokes(round.format, input, uid) : [],
+        points: isStableford ? standing?.holes : undefined,
+        totalPoints: isStableford ? standing?.total : undefined
+      }];
+    }));
+  };
+
+  // e.g. "Dave & Sam won 3&2 vs Alex & Chris"
+  const getMatchSummary = (round: Round) => {
+    if (!round.match) return '';
+    const { sideA, sideB, winners, result } = round.match;
+    const names = (side: string[]) => side.map(getPlayerName).join(' & ');
+    if (winners.length === 0) {
+      return `${names(sideA)} halved with ${names(sideB)}`;
+    }
+    const losers = winners.includes(sideA[0]) ? sideB : sideA;
+    return `${names(winners)} won ${result} vs ${names(losers)}`;
   };
 
   const getUniqueCourses = () => {
@@ -104,6 +155,8 @@ const RoundHistory: React.FC = () => {
     return <LoadingSpinner />;
   }
 
+  const playerCards = filteredRounds.map(getPlayerCards);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
@@ -147,8 +200,11 @@ const RoundHistory: React.FC = () => {
               <input
                 id="player-filter"
                 type="text"
-                value={playerFilter}
-                onChange={(e) => setPlayerFilter(e.target.value)}
+                value={playerUid ? allUsers.find(u => u.uid === playerUid)?.name || '' : playerFilter}
+                onChange={(e) => {
+                  setPlayerUid(null);
+                  setPlayerFilter(e.target.value);
+                }}
                 placeholder="Search by player name"
                 className="input-field"
               />
@@ -182,114 +238,296 @@ const RoundHistory: React.FC = () => {
               </p>
             </div>
           ) : (
-            filteredRounds.map((round) => (
+            filteredRounds.map((round, index) => (
               <div key={round.id} className="card">
                 <div className="flex justify-between items-start mb-4">
                   <div>
                     <h3 className="text-xl font-semibold text-gray-900">
-                      {typeof round.course === 'string' ? round.course : round.course.name}
+                      <Link to={`/rounds/${round.id}`} className="hover:text-green-700">
+                        {typeof round.course === 'string' ? round.course : round.course.name}
+                      </Link>
                     </h3>
                     <p className="text-gray-600">
                       {formatDate(round.date)} • {round.players.length} players
                     </p>
+                    {round.match && (
+                      <p className="text-sm font-medium text-gray-800 mt-1">
+                        {getMatchSummary(round)}
+                      </p>
+                    )}
                   </div>
-                  {round.winner && (
+                  {getIndividualWinners(round).length > 0 && (
                     <div className="text-right">
-                      <span className="text-xs text-gray-500">Winner</span>
-                      <div className="flex items-center space-x-1">
-                        {getPlayerPhoto(round.winner) ? (
-                          <img
-                            src={getPlayerPhoto(round.winner)}
-                            alt={getPlayerName(round.winner)}
-                            className="w-6 h-6 rounded-full"
-                          />
-                        ) : (
-                          <div className="w-6 h-6 bg-golf-green-600 rounded-full flex items-center justify-center">
-                            <span className="text-white text-xs font-medium">
-                              {getPlayerName(round.winner).charAt(0).toUpperCase()}
-                            </span>
-                          </div>
-                        )}
-                        <span className="text-sm font-medium text-golf-green-600">
-                          {getPlayerName(round.winner)}
-                        </span>
-                      </div>
+                      <span className="text-xs text-gray-500">
+                        {getWinnerLabel(round)}
+                      </span>
+                      {getIndividualWinners(round).map(uid => (
+                        <div key={uid} className="flex items-center space-x-1">
+                          {getPlayerPhoto(uid) ? (
+                            <img
+                              src={getPlayerPhoto(uid)}
+                              alt={getPlayerName(uid)}
+                              className="w-6 h-6 rounded-full"
+                            />
+                          ) : (
+                            <div className="w-6 h-6 bg-golf-green-600 rounded-full flex items-center justify-center">
+                              <span className="text-white text-xs font-medium">
+                                {getPlayerName(uid).charAt(0).toUpperCase()}
+                              </span>
+                            </div>
+                          )}
+                          <span className="text-sm font-medium text-golf-green-600">
+                            {getPlayerName(uid)}
+                          </span>
+                        </div>
+                      ))}
+                      {round.decidedBy && (
+                        <span className="block text-xs text-gray-500">{round.decidedBy}</span>
+                      )}
+                    </div>
+                  )}
+                  {getRoundWinningTeams(round).length > 0 && (
+                    <div className="text-right">
+                      <span className="text-xs text-gray-500">
+                        {getWinnerLabel(round)}
+                      </span>
+                      {getRoundWinningTeams(round).map(team => (
+                        <div key={team.id}>
+                          <span className="block text-sm font-medium text-golf-green-600">
+                            {team.name}
+                          </span>
+                          <span className="block text-xs text-gray-500">
+                            {team.players.map(getPlayerName).join(', ')}
+                          </span>
+                        </div>
+                      ))}
+                      {round.decidedBy && (
+                        <span className="block text-xs text-gray-500">{round.decidedBy}</span>
+                      )}
                     </div>
                   )}
                 </div>
 
                 {/* Scorecard */}
-                <div className="overflow-x-auto">
-                  <div className="min-w-max">
-                    {/* Header */}
-                    <div className="grid grid-cols-1 gap-4 mb-4">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-32"></div>
-                        {round.players.map(uid => (
-                          <div key={uid} className="flex items-center space-x-2">
-                            {getPlayerPhoto(uid) ? (
-                              <img
-                                src={getPlayerPhoto(uid)}
-                                alt={getPlayerName(uid)}
-                                className="w-6 h-6 rounded-full"
-                              />
-                            ) : (
-                              <div className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center">
-                                <span className="text-gray-600 text-xs font-medium">
-                                  {getPlayerName(uid).charAt(0).toUpperCase()}
+                {round.format === 'scramble' && round.teams ? (
+                  <TeamScorecard
+                    teams={round.teams}
+                    holePars={getHolePars(round, round.holeCount)}
+                    getPlayerName={getPlayerName}
+                    showNet={round.scoringMode === 'net'}
+                  />
+                ) : (
+                  <div className="overflow-x-auto">
+                    <div className="min-w-max">
+                      {/* Header */}
+                      <div className="grid grid-cols-1 gap-4 mb-4">
+                        <div className="flex items-center space-x-4">
+                          <div className="w-32"></div>
+                          {round.players.map(uid => (
+                            <div key={uid} className="flex items-center space-x-2">
+                              {getPlayerPhoto(uid) ? (
+                                <img
+                                  src={getPlayerPhoto(uid)}
+                                  alt={getPlayerName(uid)}
+                                  className="w-6 h-6 rounded-full"
+                                />
+                              ) : (
+                                <div className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center">
+                                  <span className="text-gray-600 text-xs font-medium">
+                                    {getPlayerName(uid).charAt(0).toUpperCase()}
+                                  </span>
+                                </div>
+                              )}
+                              <div className="min-w-0">
+                                <span className="block text-sm font-medium text-gray-900 truncate">
+                                  {getPlayerName(uid)}
                                 </span>
+                                {round.scores.find(s => s.uid === uid)?.tee && (
+                                  <span className="block text-xs text-gray-500">
+                                    {round.scores.find(s => s.uid === uid)?.tee?.name} tees
+                                  </span>
+                                )}
                               </div>
-                            )}
-                            <span className="text-sm font-medium text-gray-900 min-w-0 truncate">
-                              {getPlayerName(uid)}
-                            </span>
+                            </div>
+                          ))}
+                          <div className="w-16 text-center text-sm font-medium text-gray-700">
+                            Total
                           </div>
-                        ))}
-                        <div className="w-16 text-center text-sm font-medium text-gray-700">
-                          Total
                         </div>
                       </div>
-                    </div>
 
-                    {/* Scores */}
-                    <div className="space-y-2">
-                      {Array.from({ length: round.scores[0]?.holes.length || 0 }, (_, i) => (
-                        <div key={i} className="flex items-center space-x-4">
-                          <div className="w-32 text-sm text-gray-600">
-                            Hole {i + 1}
-                          </div>
-                          {round.players.map(uid => {
-                            const playerScore = round.scores.find(s => s.uid === uid);
-                            const score = playerScore?.holes[i] || 0;
-                            return (
-                              <div key={uid} className="flex justify-center">
-                                <div className="w-12 h-12 flex items-center justify-center text-sm font-medium">
-                                  {score}
+                      {/* Scores */}
+                      <div className="space-y-2">
+                        {getHolePars(round, round.scores[0]?.holes.length || 0).map((par, i) => (
+                          <div key={i} className="flex items-center space-x-4">
+                            <div className="w-32 text-sm text-gray-600">
+                              Hole {i + 1}
+                              <span className="ml-2 text-xs text-gray-400">Par {par}</span>
+                              {round.skins?.holes[i] && (
+                                <span className={`block text-xs ${getSkinsHoleColor(round.skins.holes[i])}`}>
+                                  {describeSkinsHole(round.skins.holes[i], getPlayerName(round.skins.holes[i].winner || ''))}
+                                </span>
+                              )}
+                              {round.wolf?.holes[i] && (
+                                <span className="block text-xs text-gray-500">
+                                  🐺 {getPlayerName(round.wolf.holes[i].wolf)} · {describeWolfChoice(round.wolf.holes[i], getPlayerName)}
+                                  {round.wolf.holes[i].result && ` · ${getWolfResultLabel(round.wolf.holes[i])}`}
+                                </span>
+                              )}
+                            </div>
+                            {round.players.map(uid => {
+                              const playerScore = round.scores.find(s => s.uid === uid);
+                              const score = playerScore?.holes[i] || 0;
+                              const adjusted = playerScore ? getPlayerAdjustedHoles(round, playerScore)[i] : score;
+                              const pickedUp = playerScore?.pickedUp?.includes(i);
+                              const strokes = playerCards[index][uid].strokes[i] || 0;
+                              return (
+                                <div key={uid} className="flex justify-center">
+                                  <div className="flex flex-col items-center">
+                                    <div
+                                      className={`w-12 h-12 flex items-center justify-center text-sm font-medium border rounded-lg ${
+                                        pickedUp ? 'bg-gray-100 border-gray-300 text-gray-500' : getScoreColor(score, par)
+                                      }`}
+                                      title={pickedUp ? 'Picked up' : getScoreLabel(score, par)}
+                                    >
+                                      {pickedUp ? 'X' : score || '-'}
+                                    </div>
+                                    {round.scoringMode === 'net' && (
+                                      <div className="flex items-center gap-1 mt-0.5 min-h-[0.75rem]">
+                                        <StrokeDots strokes={strokes} />
+                                        {score > 0 && (
+                                          <span className="text-[10px] font-semibold text-blue-600">Net {score - strokes}</span>
+                                        )}
+                                      </div>
+                                    )}
+                                  </div>
+                                  {adjusted !== score && (
+                                    <span
+                                      className="ml-1 self-center text-xs font-semibold text-amber-600"
+                                      title={`Counts as ${adjusted} for handicap`}
+                                    >
+                                      ({adjusted})
+                                    </span>
+                                  )}
+                                  {playerCards[index][uid].points && score > 0 && (
+                                    <span className="ml-1 self-center text-xs font-semibold text-indigo-600">
+                                      {playerCards[index][uid].points![i]}
+                                    </span>
+                                  )}
                                 </div>
-                              </div>
-                            );
-                          })}
-                          <div className="w-16"></div>
+                              );
+                            })}
+                            <div className="w-16 text-center text-xs font-semibold">
+                              {round.match && i < round.match.holes.length && (
+                                <span className={getLeadColor(getRunningLeads(round.match.holes)[i])}>
+                                  {formatRunningLead(getRunningLeads(round.match.holes)[i])}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+
+                      {/* Totals */}
+                      <div className="flex items-center space-x-4 mt-4 pt-4 border-t border-gray-200">
+                        <div className="w-32 text-sm font-bold text-gray-900">
+                          Total
                         </div>
+                        {round.players.map(uid => (
+                          <div key={uid} className="flex justify-center">
+                            <div className="text-lg font-bold text-golf-green-600 text-center">
+                              {playerCards[index][uid].gross}
+                              <span className="block text-xs font-medium text-gray-500">
+                                {formatToPar(playerCards[index][uid].toPar)}
+                              </span>
+                              {!!round.scores.find(s => s.uid === uid)?.pickedUp?.length && (
+                                <span className="block text-xs font-medium text-amber-600">
+                                  Incomplete · {round.scores.find(s => s.uid === uid)!.pickedUp!.length} X
+                                </span>
+                              )}
+                              {round.scoringMode === 'net' && playerCards[index][uid].net !== undefined && (
+                                <span className="block text-xs font-medium text-blue-600">
+                                  Net {playerCards[index][uid].net}
+                                </span>
+                              )}
+                              {round.scores.find(s => s.uid === uid) && (
+                                <span className="block text-xs font-medium text-amber-600" title="Adjusted gross, for handicap">
+                                  Adj {getPlayerAdjustedGross(round, round.scores.find(s => s.uid === uid)!)}
+                                </span>
+                              )}
+                              {playerCards[index][uid].totalPoints !== undefined && (
+                                <span className="block text-xs font-medium text-indigo-600">
+                                  {playerCards[index][uid].totalPoints} pts
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                        <div className="w-16"></div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {round.teams && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <TeamResults
+                      teams={round.teams}
+                      winningTeams={getWinningTeamIds(round)}
+                      mode={round.scoringMode || 'gross'}
+                      getPlayerName={getPlayerName}
+                    />
+                  </div>
+                )}
+                {round.skins && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                      Skins · {round.skins.mode === 'net' ? 'Net' : 'Gross'} · {formatStake(round.skins.value)} per skin
+                    </h4>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                      {round.skins.totals.map(total => (
+                        <span key={total.uid} className="text-gray-700">
+                          {getPlayerName(total.uid)}: {total.skins} skin{total.skins !== 1 ? 's' : ''},{' '}
+                          <span className={`font-medium ${getMoneyColor(total.amount)}`}>{formatMoney(total.amount)}</span>
+                        </span>
                       ))}
                     </div>
-
-                    {/* Totals */}
-                    <div className="flex items-center space-x-4 mt-4 pt-4 border-t border-gray-200">
-                      <div className="w-32 text-sm font-bold text-gray-900">
-                        Total
-                      </div>
-                      {round.players.map(uid => (
-                        <div key={uid} className="flex justify-center">
-                          <div className="text-lg font-bold text-golf-green-600">
-                            {getPlayerScore(round, uid)}
-                          </div>
+                  </div>
+                )}
+                {round.pointGames && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                      {[round.pointGames.bingoBangoBongo && 'Bingo Bango Bongo', round.pointGames.dots && 'Dots']
+                        .filter(Boolean)
+                        .join(' + ')}
+                      {round.pointGames.value > 0 && ` · ${formatStake(round.pointGames.value)} per point`}
+                    </h4>
+                    <div className="space-y-1 text-sm">
+                      {round.pointGames.totals.map(total => (
+                        <div key={total.uid} className="text-gray-700">
+                          {getPlayerName(total.uid)}: {total.points} pt{total.points !== 1 ? 's' : ''}
+                          {round.pointGames!.value > 0 && (
+                            <span className={`ml-1 font-medium ${getMoneyColor(total.amount)}`}>{formatMoney(total.amount)}</span>
+                          )}
+                          {total.points > 0 && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              {describePlayerEvents(round.pointGames!.events, total.uid)}
+                            </span>
+                          )}
                         </div>
                       ))}
-                      <div className="w-16"></div>
                     </div>
                   </div>
-                </div>
+                )}
+                {round.wolf && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <WolfStandings wolf={round.wolf} getPlayerName={getPlayerName} />
+                  </div>
+                )}
+                {round.nassau && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <NassauBreakdown nassau={round.nassau} getPlayerName={getPlayerName} />
+                  </div>
+                )}
               </div>
             ))
           )}
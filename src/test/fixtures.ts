@@ -0,0 +1,27 @@
+import type { Round } from '../utils/firebase';
+
+// Shared builders for the unit tests
+
+export const fours = (count: number): number[] => new Array(count).fill(4);
+
+// A finished stroke-play round. Players default to whoever has a score, and
+// the hole count and par to a card of par fours as long as the first score.
+export const makeRound = (overrides: Partial<Round> = {}): Round => {
+  const scores = overrides.scores || [];
+  const holeCount = overrides.holeCount || scores[0]?.holes.length || 9;
+  const date = overrides.date || '2024-05-01';
+
+  return {
+    id: 'r1',
+    courseId: 'course',
+    courseName: 'Pine Valley',
+    course: 'Pine Valley',
+    date,
+    players: scores.map(score => score.uid),
+    scores,
+    holeCount,
+    par: holeCount * 4,
+    createdAt: new Date(date),
+    ...overrides
+  };
+};
@@ -1,6 +1,14 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider, PhoneAuthProvider, signInWithPopup, signInWithPhoneNumber, RecaptchaVerifier } from 'firebase/auth';
-import { getFirestore, collection, doc, setDoc, getDoc, getDocs, query, where, orderBy, limit, updateDoc, addDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { getFirestore, collection, doc, setDoc, getDoc, getDocs, query, where, orderBy, limit, startAfter, QueryDocumentSnapshot, QuerySnapshot, updateDoc, addDoc, deleteDoc, Timestamp, runTransaction, Transaction, onSnapshot, arrayUnion, Unsubscribe } from 'firebase/firestore';
+import { EMPTY_STATS, aggregateStats, isFinishedRound, replaceRound } from './stats';
+import { getCurrentIndex, getHandicapHistory } from './handicap';
+import { hasUnseenLiveScores, LiveScores } from './live';
+import type { MatchSide } from './matchPlay';
+import type { NassauOptions } from './nassau';
+import type { PointGamesOptions } from './pointGames';
+import type { SkinsOptions } from './skins';
+import type { WolfDecision } from './wolf';
 
 const firebaseConfig = {
   apiKey: process.env.REACT_APP_FIREBASE_API_KEY,
@@ -24,19 +32,47 @@ export const phoneProvider = new PhoneAuthProvider(auth);
 export { RecaptchaVerifier };
 
 // User types
+export interface HandicapRevision {
+  date: string;
+  roundId: string;
+  differential: number;
+  index: number | null; // Null until there are enough scores for an index
+}
+
 export interface User {
   uid: string;
   name: string;
   photoURL?: string;
   homeCourse?: string;
-  handicap?: number;
+  handicap?: number; // Starting value entered by hand, used until an index can be computed
+  handicapIndex?: number | null; // World Handicap System index computed from rounds
+  handicapHistory?: HandicapRevision[];
+  statsRoundId?: string; // The round whose save last re-aggregated stats, checked by the security rules
   stats: {
     wins: number;
     birdies: number;
     bestScore: number;
     averageScore: number;
     roundsPlayed: number;
-  };
+  } & Partial<HoleStatTotals>; // Missing on profiles aggregated before hole stats existed
+}
+
+// Counts behind the per-hole percentages, each over the holes where it was recorded
+export interface HoleStatTotals {
+  trackedHoles: number; // Holes with any detail recorded
+  puttHoles: number; // Holes with putts recorded, which is also when GIR is known
+  putts: number;
+  greensHit: number;
+  fairwayHoles: number;
+  fairwaysHit: number;
+  fairwaysLeft: number;
+  fairwaysRight: number;
+  penaltyHoles: number;
+  penalties: number;
+  upAndDownChances: number;
+  upAndDowns: number;
+  sandSaveChances: number;
+  sandSaves: number;
 }
 
 // Course types
@@ -46,13 +82,31 @@ export interface Location {
   lng: number;
 }
 
+export interface CourseHole {
+  number: number;
+  par: number;
+  handicap: number; // Stroke index, 1 = hardest hole
+  yardage?: number; // Superseded by TeeSet.yardages, read when seeding tees for older courses
+}
+
+export interface TeeSet {
+  id: string;
+  name: string;
+  color: string;
+  rating: number; // 0 when unknown
+  slope: number;
+  yardages: number[]; // Per hole, 0 when unknown
+}
+
 export interface Course {
   id?: string;
   name: string;
   location: Location;
   holes: number;
   par: number;
-  rating?: number;
+  holeLayout?: CourseHole[];
+  tees?: TeeSet[];
+  rating?: number; // Mirrors the first tee set for older screens
   slope?: number;
   amenities?: string[];
   phone?: string;
@@ -64,8 +118,231 @@ export interface Course {
 }
 
 // Round types
+// Snapshot of the tee a player played, so later course edits don't change old rounds
+export interface RoundTee {
+  id: string;
+  name: string;
+  rating: number;
+  slope: number;
+  par: number;
+}
+
+export type ScoringMode = 'gross' | 'net';
+export type GameFormat = 'stroke' | 'stableford' | 'match' | 'fourball' | 'scramble';
+export type StablefordVariant = 'standard' | 'modified';
+export type MatchHoleResult = 'A' | 'B' | 'halved';
+
+// Singles or better-ball match between two sides. Sides are separate fields
+// because Firestore can't store nested arrays.
+export interface MatchResult {
+  sideA: string[];
+  sideB: string[];
+  holes: MatchHoleResult[]; // Only the holes played until the match was decided
+  winners: string[]; // Empty when the match was halved
+  result: string; // e.g. "3&2", "1 UP" or "Halved"
+}
+
+// won: sole low score; carried/void: tied, with or without carryovers;
+// pending: waiting on the next hole to validate; forfeited: failed validation
+export type SkinsHoleStatus = 'won' | 'carried' | 'void' | 'pending' | 'forfeited';
+
+export interface SkinsHole {
+  winner: string | null;
+  skins: number;
+  status: SkinsHoleStatus;
+}
+
+export interface SkinsTotal {
+  uid: string;
+  skins: number;
+  amount: number; // Net winnings; every skin is paid by each other player
+}
+
+export interface SkinsResult {
+  mode: ScoringMode;
+  carryovers: boolean;
+  validation: boolean; // Must tie or beat the next hole to keep a skin
+  value: number; // Per skin, per opponent
+  holes: SkinsHole[];
+  totals: SkinsTotal[];
+}
+
+export type NassauScoring = 'match' | 'stroke';
+export type PressMode = 'none' | 'manual' | 'auto';
+
+// One bet of a Nassau: a nine, the full 18, or a press. Holes are 0-based,
+// from startHole up to but not including endHole.
+export interface NassauBet {
+  name: string;
+  startHole: number;
+  endHole: number;
+  lead: number; // Holes (match) or strokes (stroke play) side A is ahead
+  complete: boolean;
+  winningSide: 'A' | 'B' | null; // Null for a push or an unfinished bet
+}
+
+export interface NassauResult {
+  sideA: string[];
+  sideB: string[];
+  stake: number; // Per bet, per player
+  scoring: NassauScoring;
+  mode: ScoringMode;
+  presses: PressMode;
+  bets: NassauBet[];
+  settlement: { uid: string; amount: number }[];
+}
+
+export type WolfChoice = 'partner' | 'lone' | 'blind';
+
+export interface WolfHole {
+  wolf: string;
+  choice: WolfChoice | null; // Null until the Wolf decides
+  partner: string | null;
+  result: 'wolf' | 'field' | 'halved' | null; // Null until the hole is scored and decided
+  points: number[]; // Points won on the hole, in tee order
+}
+
+export interface WolfResult {
+  order: string[]; // Tee order; the Wolf rotates through it hole by hole
+  mode: ScoringMode;
+  holes: WolfHole[];
+  standings: { uid: string; points: number }[];
+}
+
+export type PointEvent = 'bingo' | 'bango' | 'bongo' | 'sandy' | 'greenie' | 'barkie' | 'polie';
+
+export interface PointEventRecord {
+  hole: number; // 0-based
+  uid: string;
+  event: PointEvent;
+}
+
+// Bingo Bango Bongo and Dots/Trash, each event worth a point
+export interface PointGamesResult {
+  bingoBangoBongo: boolean;
+  dots: boolean;
+  value: number; // Per point, per opponent; 0 to play for points only
+  events: PointEventRecord[];
+  totals: { uid: string; points: number; amount: number }[];
+}
+
+// A side in a team format. Four-ball teams score the best individual ball on
+// each hole; scramble teams post a single team score and have no individual scores.
+export interface RoundTeam {
+  id: string;
+  name: string;
+  players: string[];
+  holes: number[]; // Gross team score per hole
+  gross: number;
+  net: number;
+  handicap: number; // Team handicap for scrambles; 0 for four-ball, where strokes are individual
+}
+
+export type FairwayResult = 'hit' | 'left' | 'right';
+
+// Optional detail for one hole. Green in regulation isn't stored, it's derived
+// from strokes and putts. For up-and-downs and sand saves, true is made, false
+// is missed and unset means there was no chance.
+export interface HoleDetail {
+  putts?: number;
+  fairway?: FairwayResult; // Par 4s and 5s only
+  penalties?: number;
+  upAndDown?: boolean;
+  sandSave?: boolean;
+}
+
+export type ShotLie = 'tee' | 'fairway' | 'rough' | 'sand' | 'green';
+export type ShotResult = ShotLie | 'holed' | 'hazard' | 'ob';
+
+export interface Shot {
+  club: string;
+  lie: ShotLie;
+  result: ShotResult;
+  distance?: number; // Yards
+}
+
+// One player's shots on one hole, stored in the round's `shots` subcollection
+// so the round document stays small
+export interface HoleShots {
+  uid: string;
+  hole: number; // 0-based
+  shots: Shot[];
+}
+
+export interface RoundScore {
+  uid: string;
+  holes: number[];
+  details?: HoleDetail[]; // One per hole when stats were tracked
+  tee?: RoundTee;
+  gross?: number;
+  net?: number;
+  adjustedGross?: number; // Holes capped at net double bogey, used for the handicap differential
+  pickedUp?: number[]; // 0-based holes the player picked up on, scored "X"
+  handicapIndex?: number;
+  courseHandicap?: number;
+  strokes?: number[]; // Handicap strokes received on each hole
+  points?: number[]; // Stableford points per hole
+  totalPoints?: number;
+}
+
+// How a tie for first is settled
+export type TieBreak = 'countback' | 'shared' | 'playoff';
+
+// Sudden-death playoff strokes for a tied player or team
+export interface PlayoffScore {
+  id: string; // uid or team id
+  holes: number[];
+}
+
+// Rounds are saved 'in_progress' while they're being scored and only count
+// towards stats and leaderboards once finished
+export type RoundStatus = 'in_progress' | 'completed';
+
+// New-round options with no home on the round until it's finished, kept on an
+// in-progress round so scoring can be resumed where it left off
+export interface RoundSetup {
+  playerTees: { [uid: string]: string };
+  matchSides: { [uid: string]: MatchSide };
+  skinsEnabled: boolean;
+  skinsOptions: SkinsOptions;
+  nassauEnabled: boolean;
+  nassauOptions: NassauOptions;
+  nassauPresses: number[];
+  teamCount: number;
+  playerTeams: { [uid: string]: string };
+  teamNames: { [teamId: string]: string };
+  teamScores: { [teamId: string]: number[] };
+  scramblePercents: number[] | null;
+  wolfEnabled: boolean;
+  wolfMode: ScoringMode;
+  wolfDecisions: { [hole: number]: WolfDecision };
+  pointGamesEnabled: boolean;
+  pointGamesOptions: PointGamesOptions;
+  pointEvents: PointEventRecord[];
+  trackHoleStats: boolean;
+  holeDetails: { [uid: string]: HoleDetail[] };
+  trackShots: boolean;
+  shots: HoleShots[]; // Flattened, since Firestore can't nest arrays
+  tieBreak: TieBreak;
+  playoffScores: { [id: string]: number[] };
+  playoffHoleCount: number;
+}
+
+// One hole's score entered live on a round in progress
+export interface LiveScore {
+  score: number; // 0 when picked up
+  pickedUp: boolean;
+  by: string; // uid of whoever entered it
+  at: number; // Epoch ms
+}
+
 export interface Round {
   id?: string;
+  status?: RoundStatus; // Missing on older rounds, which were all saved finished
+  createdBy?: string; // Whoever started scoring the round
+  setup?: RoundSetup; // In-progress rounds only
+  liveScores?: { [uid: string]: { [hole: string]: LiveScore } }; // In progress: entries by 0-based hole, newer than `scores`
+  joined?: string[]; // In progress: players scoring their own card on their own device
   courseId: string;
   courseName: string;
   course: Course | string; // Full course data or just the name for backward compatibility
@@ -76,16 +353,50 @@ export interface Round {
     address?: string;
   };
   players: string[];
-  scores: {
-    uid: string;
-    holes: number[];
-  }[];
-  winner?: string;
+  scores: RoundScore[];
+  scoringMode?: ScoringMode; // Missing on older rounds, which were all gross
+  format?: GameFormat; // Missing on older rounds, which were all stroke play
+  stablefordVariant?: StablefordVariant;
+  match?: MatchResult;
+  skins?: SkinsResult;
+  nassau?: NassauResult;
+  wolf?: WolfResult;
+  pointGames?: PointGamesResult;
+  teams?: RoundTeam[];
+  teamHandicapPercents?: number[]; // Scramble allowance per player, lowest handicap first
+  winner?: string; // Individual formats; left unset when the win is shared
+  winners?: string[]; // Everyone sharing an individual win
+  winningTeam?: string; // Team formats: the id of the winning RoundTeam
+  winningTeams?: string[]; // Every team sharing the win
+  tied?: boolean; // Still level after any tie-break, so the win is shared
+  tieBreak?: TieBreak;
+  playoff?: PlayoffScore[];
+  decidedBy?: string; // e.g. "Countback (last 6)" when a tie-break settled it
   holeCount: number;
   par: number;
   createdAt: Date;
 }
 
+// One change made when correcting a saved round. Hole scores are recorded as
+// they read on the card: "5", "X" for a pickup, or "" for no score.
+export interface RoundChange {
+  field: 'date' | 'course' | 'players' | 'score';
+  uid?: string; // Score changes: whose card
+  teamId?: string; // Scramble score changes: whose team card
+  hole?: number; // Score changes: 0-based
+  before: string | string[];
+  after: string | string[];
+}
+
+// An edit to a saved round, kept in the round's `edits` subcollection as its
+// audit trail
+export interface RoundEdit {
+  id?: string;
+  by: string;
+  at: Date;
+  changes: RoundChange[];
+}
+
 // Auth functions
 export const signInWithGoogle = async () => {
   try {
@@ -113,13 +424,7 @@ export const createUser = async (userData: Omit<User, 'uid'>) => {
   await setDoc(userRef, {
     ...userData,
     handicap: userData.handicap || null, // Fix undefined handicap issue
-    stats: {
-      wins: 0,
-      birdies: 0,
-      bestScore: 999,
-      averageScore: 0,
-      roundsPlayed: 0
-    }
+    stats: { ...EMPTY_STATS }
   });
 };
 
@@ -264,15 +569,165 @@ export const deleteCourse = async (courseId: string) => {
   await deleteDoc(courseRef);
 };
 
+// Stats aggregation
+// Recomputes each player's stats and handicap index from their round history with
+// `next` standing in for the round being written (null when it's deleted), and stages
+// the updates on `transaction` so they commit atomically with the round itself.
+// Profiles are read through the transaction before the history is queried, so when
+// another round for the same player commits first this one retries and picks it up.
+// Transactions need every read before any write: call this after the caller's reads.
+const stagePlayerStats = async (transaction: Transaction, uids: string[], roundId: string, next: Round | null) => {
+  const uniqueUids = Array.from(new Set(uids));
+  const userSnaps = await Promise.all(uniqueUids.map(uid => transaction.get(doc(db, 'users', uid))));
+  const histories = await Promise.all(uniqueUids.map(uid => getUserRounds(uid)));
+
+  userSnaps.forEach((userSnap, i) => {
+    // Players without a profile have nowhere to store stats
+    if (!userSnap.exists()) {
+      return;
+    }
+
+    const uid = uniqueUids[i];
+    const rounds = replaceRound(histories[i], roundId, next);
+    const handicapHistory = getHandicapHistory(rounds, uid);
+    transaction.update(userSnap.ref, {
+      stats: aggregateStats(rounds, uid),
+      handicapIndex: getCurrentIndex(handicapHistory),
+      handicapHistory,
+      statsRoundId: roundId
+    });
+  });
+};
+
 // Round functions
-export const createRound = async (roundData: Omit<Round, 'id' | 'createdAt'>) => {
-  const roundRef = await addDoc(collection(db, 'rounds'), {
+const getShotsRef = (roundId: string) => collection(db, 'rounds', roundId, 'shots');
+const getEditsRef = (roundId: string) => collection(db, 'rounds', roundId, 'edits');
+
+// Finishing writes the final round over its draft, if it had one, and
+// re-aggregates stats for everyone who played in it
+export const LIVE_SCORES_CHANGED = 'New scores came in from another device while finishing. Check the scorecard and finish again.';
+
+// `seenLiveScores` are the live entries the finished card was built from. If
+// any more have landed since, finishing would throw them away, so it fails instead.
+export const finishRound = async (
+  roundId: string | null,
+  roundData: Omit<Round, 'id' | 'createdAt' | 'status'>,
+  shots: HoleShots[] = [],
+  seenLiveScores: LiveScores = {}
+) => {
+  const roundRef = roundId ? doc(db, 'rounds', roundId) : doc(collection(db, 'rounds'));
+  const round: Omit<Round, 'id'> = {
     ...roundData,
+    status: 'completed',
     createdAt: new Date()
+  };
+
+  await runTransaction(db, async transaction => {
+    if (roundId) {
+      const current = await getRoundIn(transaction, roundId);
+      if (hasUnseenLiveScores(seenLiveScores, current.liveScores || {})) {
+        throw new Error(LIVE_SCORES_CHANGED);
+      }
+    }
+
+    await stagePlayerStats(transaction, round.players, roundRef.id, round);
+    transaction.set(roundRef, round);
+    shots.forEach(entry => {
+      transaction.set(doc(getShotsRef(roundRef.id), `${entry.uid}_${entry.hole}`), entry);
+    });
   });
+
   return roundRef.id;
 };
 
+// Autosaves a round while it's being scored, without touching anyone's stats.
+// The draft is rewritten whole so results that no longer apply don't linger,
+// and the JSON round trip drops the undefined fields and sparse per-hole
+// entries of half-filled form state, which Firestore rejects.
+export const saveDraftRound = async (roundId: string | null, roundData: Omit<Round, 'id' | 'createdAt' | 'status'>) => {
+  const draft = {
+    ...JSON.parse(JSON.stringify(roundData)),
+    status: 'in_progress',
+    createdAt: new Date()
+  };
+
+  if (!roundId) {
+    const roundRef = doc(collection(db, 'rounds'));
+    await setDoc(roundRef, draft);
+    return roundRef.id;
+  }
+
+  // Players enter their own scores live from other devices, so carry those
+  // over, and never reopen a round that was finished or discarded meanwhile
+  const roundRef = doc(db, 'rounds', roundId);
+  await runTransaction(db, async transaction => {
+    const roundSnap = await transaction.get(roundRef);
+    const existing = roundSnap.data() as Round | undefined;
+    if (existing?.status !== 'in_progress') {
+      return;
+    }
+
+    transaction.set(roundRef, {
+      ...draft,
+      ...(existing.liveScores ? { liveScores: existing.liveScores } : {}),
+      ...(existing.joined ? { joined: existing.joined } : {})
+    });
+  });
+
+  return roundId;
+};
+
+// A dropped feed is resubscribed after 2s, then 4s, 8s… up to a minute
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+// Live updates to a round, e.g. while it's being scored on several devices.
+// Firestore gives up on a listener once it errors, so each drop is reported
+// to `onError` and the feed is picked up again with backoff.
+export const subscribeToRound = (
+  roundId: string,
+  onChange: (round: Round | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let failures = 0;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let unsubscribe: Unsubscribe = () => {};
+
+  const subscribe = () => {
+    unsubscribe = onSnapshot(
+      doc(db, 'rounds', roundId),
+      roundSnap => {
+        failures = 0;
+        onChange(roundSnap.exists() ? ({ id: roundSnap.id, ...roundSnap.data() }) as Round : null);
+      },
+      error => {
+        onError?.(error);
+        const delay = Math.min(RETRY_BASE_MS * 2 ** failures, RETRY_MAX_MS);
+        failures += 1;
+        retry = setTimeout(subscribe, delay);
+      }
+    );
+  };
+
+  subscribe();
+  return () => {
+    clearTimeout(retry);
+    unsubscribe();
+  };
+};
+
+// Each hole is its own field, so devices scoring at once only ever collide on
+// the same hole, where the last entry wins
+export const setLiveScore = async (roundId: string, uid: string, hole: number, entry: Omit<LiveScore, 'at'>) => {
+  const roundRef = doc(db, 'rounds', roundId);
+  await updateDoc(roundRef, { [`liveScores.${uid}.${hole}`]: { ...entry, at: Date.now() } });
+};
+
+export const joinRound = async (roundId: string, uid: string) => {
+  const roundRef = doc(db, 'rounds', roundId);
+  await updateDoc(roundRef, { joined: arrayUnion(uid) });
+};
+
 export const getRound = async (roundId: string): Promise<Round | null> => {
   const roundRef = doc(db, 'rounds', roundId);
   const roundSnap = await getDoc(roundRef);
@@ -283,12 +738,35 @@ export const getRound = async (roundId: string): Promise<Round | null> => {
   return null;
 };
 
+export const getRoundShots = async (roundId: string): Promise<HoleShots[]> => {
+  const shotsSnap = await getDocs(getShotsRef(roundId));
+  return shotsSnap.docs
+    .map(doc => doc.data() as HoleShots)
+    .sort((a, b) => a.hole - b.hole);
+};
+
+// Drafts can't be left out by the query itself because older rounds have no
+// status at all, so keep paging until enough finished rounds turn up
 export const getRounds = async (limitCount: number = 10): Promise<Round[]> => {
   const roundsRef = collection(db, 'rounds');
-  const q = query(roundsRef, orderBy('date', 'desc'), limit(limitCount));
-  const roundsSnap = await getDocs(q);
-  
-  return roundsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Round);
+  const rounds: Round[] = [];
+  let cursor: QueryDocumentSnapshot | null = null;
+
+  while (rounds.length < limitCount) {
+    const page = cursor
+      ? query(roundsRef, orderBy('date', 'desc'), startAfter(cursor), limit(limitCount))
+      : query(roundsRef, orderBy('date', 'desc'), limit(limitCount));
+    const roundsSnap: QuerySnapshot = await getDocs(page);
+
+    rounds.push(...roundsSnap.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }) as Round)
+      .filter(isFinishedRound));
+
+    if (roundsSnap.docs.length < limitCount) break;
+    cursor = roundsSnap.docs[roundsSnap.docs.length - 1];
+  }
+
+  return rounds.slice(0, limitCount);
 };
 
 export const getUserRounds = async (uid: string): Promise<Round[]> => {
@@ -296,15 +774,107 @@ export const getUserRounds = async (uid: string): Promise<Round[]> => {
   const q = query(roundsRef, where('players', 'array-contains', uid), orderBy('date', 'desc'));
   const roundsSnap = await getDocs(q);
   
-  return roundsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Round);
+  return roundsSnap.docs
+    .map(doc => ({ id: doc.id, ...doc.data() }) as Round)
+    .filter(isFinishedRound);
+};
+
+// Rounds still being scored that the user started or is playing in. Both
+// queries need the composite indexes in firestore.indexes.json.
+export const getInProgressRounds = async (uid: string): Promise<Round[]> => {
+  const roundsRef = collection(db, 'rounds');
+  const [playingSnap, startedSnap] = await Promise.all([
+    getDocs(query(roundsRef, where('status', '==', 'in_progress'), where('players', 'array-contains', uid), orderBy('date', 'desc'))),
+    getDocs(query(roundsRef, where('status', '==', 'in_progress'), where('createdBy', '==', uid), orderBy('date', 'desc')))
+  ]);
+
+  // The starter is usually playing too, so most rounds come back from both
+  const rounds = new Map<string, Round>();
+  [...playingSnap.docs, ...startedSnap.docs].forEach(doc => {
+    rounds.set(doc.id, { id: doc.id, ...doc.data() } as Round);
+  });
+
+  return Array.from(rounds.values()).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Reads a round inside a transaction, for writes that depend on it
+const getRoundIn = async (transaction: Transaction, roundId: string): Promise<Round> => {
+  const roundSnap = await transaction.get(doc(db, 'rounds', roundId));
+  if (!roundSnap.exists()) {
+    throw new Error(`Round ${roundId} not found`);
+  }
+  return { id: roundId, ...roundSnap.data() } as Round;
 };
 
 export const updateRound = async (roundId: string, updates: Partial<Round>) => {
   const roundRef = doc(db, 'rounds', roundId);
-  await updateDoc(roundRef, updates);
+
+  await runTransaction(db, async transaction => {
+    const existing = await getRoundIn(transaction, roundId);
+    const next = { ...existing, ...updates };
+
+    // Players dropped from the round need their stats rolled back too
+    await stagePlayerStats(transaction, [...existing.players, ...next.players], roundId, next);
+    transaction.update(roundRef, updates);
+  });
+};
+
+// Saves a correction to a finished round along with its audit entry. The round
+// is rewritten whole so a winner or tie it no longer has doesn't linger, and
+// stats are re-aggregated for everyone on it before or after the edit.
+// A shot log no longer matches the card once its player is dropped or the
+// score it led to has been corrected
+const isStaleShotLog = (before: Round, after: Round, entry: HoleShots) => {
+  if (!after.players.includes(entry.uid)) return true;
+  const was = before.scores.find(score => score.uid === entry.uid);
+  const now = after.scores.find(score => score.uid === entry.uid);
+  return was?.holes[entry.hole] !== now?.holes[entry.hole] ||
+    (was?.pickedUp || []).includes(entry.hole) !== (now?.pickedUp || []).includes(entry.hole);
+};
+
+export const saveRoundEdit = async (roundId: string, next: Round, edit: Omit<RoundEdit, 'id' | 'at'>) => {
+  const { id, ...roundData } = next;
+  // Queries can't run inside a transaction, so the shot log is read up front
+  const shotsSnap = await getDocs(getShotsRef(roundId));
+
+  await runTransaction(db, async transaction => {
+    const existing = await getRoundIn(transaction, roundId);
+    const round = { ...roundData, createdAt: existing.createdAt };
+
+    await stagePlayerStats(transaction, [...existing.players, ...round.players], roundId, round);
+    transaction.set(doc(db, 'rounds', roundId), round);
+    transaction.set(doc(getEditsRef(roundId)), { ...edit, at: new Date() });
+    shotsSnap.docs
+      .filter(shotDoc => isStaleShotLog(existing, next, shotDoc.data() as HoleShots))
+      .forEach(shotDoc => transaction.delete(shotDoc.ref));
+  });
+};
+
+// Newest first
+export const getRoundEdits = async (roundId: string): Promise<RoundEdit[]> => {
+  const editsSnap = await getDocs(query(getEditsRef(roundId), orderBy('at', 'desc')));
+  return editsSnap.docs.map(editDoc => {
+    const data = editDoc.data();
+    return { id: editDoc.id, ...data, at: (data.at as Timestamp).toDate() } as RoundEdit;
+  });
 };
 
 export const deleteRound = async (roundId: string) => {
   const roundRef = doc(db, 'rounds', roundId);
-  await deleteDoc(roundRef);
+
+  // Subcollections outlive their parent document, so clear the shot log and
+  // edit history too
+  const [shotsSnap, editsSnap] = await Promise.all([getDocs(getShotsRef(roundId)), getDocs(getEditsRef(roundId))]);
+
+  await runTransaction(db, async transaction => {
+    const roundSnap = await transaction.get(roundRef);
+    const existing = roundSnap.exists() ? ({ id: roundId, ...roundSnap.data() } as Round) : null;
+    // A discarded draft never counted, so there's nothing to roll back
+    if (existing && isFinishedRound(existing)) {
+      await stagePlayerStats(transaction, existing.players, roundId, null);
+    }
+    transaction.delete(roundRef);
+    shotsSnap.docs.forEach(shotDoc => transaction.delete(shotDoc.ref));
+    editsSnap.docs.forEach(editDoc => transaction.delete(editDoc.ref));
+  });
 };
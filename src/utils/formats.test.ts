@@ -0,0 +1,314 @@
+import type { NassauResult, PointGamesResult, Round, SkinsResult } from './firebase';
+import { getReceivedStrokes, getRoundSideGames, getStrokeScores, scoreRound, scoreSideGames, ScoringInput } from './formats';
+import { PICKED_UP_SCORE } from './scoring';
+import { resolveTie } from './ties';
+import { fours } from '../test/fixtures';
+
+const ALL_PARS = fours(9);
+
+const makeInput = (overrides: Partial<ScoringInput> = {}): ScoringInput => ({
+  players: ['a', 'b'],
+  holeCount: 9,
+  pars: ALL_PARS,
+  holeIndexes: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+  scores: { a: ALL_PARS, b: ALL_PARS },
+  pickedUp: {},
+  courseHandicaps: { a: 0, b: 0 },
+  scoringMode: 'gross',
+  config: {},
+  ...overrides
+});
+
+describe('scoreRound', () => {
+  it('ranks stroke play by gross total', () => {
+    const result = scoreRound('stroke', makeInput({ scores: { a: ALL_PARS, b: [5, 4, 4, 4, 4, 4, 4, 4, 4] } }));
+
+    expect(result.winners).toEqual(['a']);
+    expect(result.tied).toBe(false);
+    expect(result.standings.map(standing => [standing.id, standing.total, standing.position])).toEqual([
+      ['a', 36, 1],
+      ['b', 37, 2]
+    ]);
+  });
+
+  it('takes handicap strokes off net stroke play', () => {
+    const result = scoreRound('stroke', makeInput({
+      scores: { a: ALL_PARS, b: [5, 4, 4, 4, 4, 4, 4, 4, 4] },
+      courseHandicaps: { a: 0, b: 2 },
+      scoringMode: 'net'
+    }));
+
+    expect(result.winners).toEqual(['b']);
+    expect(result.standings.find(standing => standing.id === 'b')).toMatchObject({ gross: 37, net: 35, total: 35 });
+  });
+
+  it('leaves a stroke play card with a pickup without a total', () => {
+    const result = scoreRound('stroke', makeInput({
+      scores: { a: [0, 3, 3, 3, 3, 3, 3, 3, 3], b: ALL_PARS },
+      pickedUp: { a: [0] }
+    }));
+
+    expect(result.winners).toEqual(['b']);
+    expect(result.standings.find(standing => standing.id === 'a')).toMatchObject({ incomplete: true, position: 2 });
+  });
+
+  it('ranks Stableford by most points', () => {
+    const result = scoreRound('stableford', makeInput({
+      scores: { a: ALL_PARS, b: [3, 4, 4, 4, 4, 4, 4, 4, 4] },
+      config: { stablefordVariant: 'standard' }
+    }));
+
+    expect(result.winners).toEqual(['b']);
+    expect(result.standings.map(standing => standing.total)).toEqual([19, 18]);
+  });
+
+  it('scores a Stableford pickup as no points', () => {
+    const result = scoreRound('stableford', makeInput({
+      scores: { a: [0, 4, 4, 4, 4, 4, 4, 4, 4], b: ALL_PARS },
+      pickedUp: { a: [0] }
+    }));
+
+    expect(result.standings.find(standing => standing.id === 'a')?.holes[0]).toBe(0);
+  });
+
+  it('settles a tie for first on countback', () => {
+    const result = scoreRound('stroke', makeInput({
+      scores: { a: [3, 4, 4, 4, 4, 4, 4, 4, 5], b: ALL_PARS },
+      config: { tieBreak: 'countback' }
+    }));
+
+    expect(result.winners).toEqual(['b']);
+    expect(result.tied).toBe(false);
+    expect(result.decidedBy).toBe('Countback (last 6)');
+  });
+
+  it('shares a tie when asked to', () => {
+    const result = scoreRound('stroke', makeInput({ config: { tieBreak: 'shared' } }));
+
+    expect(result.winners).toEqual(['a', 'b']);
+    expect(result.tied).toBe(true);
+    expect(result.decidedBy).toBeUndefined();
+  });
+
+  it('settles a tie with playoff holes', () => {
+    const result = scoreRound('stroke', makeInput({
+      config: { tieBreak: 'playoff', playoff: [{ id: 'a', holes: [4, 3] }, { id: 'b', holes: [4, 4] }] }
+    }));
+
+    expect(result.winners).toEqual(['a']);
+    expect(result.decidedBy).toBe('Playoff (2 holes)');
+  });
+
+  it('ends a match once it is decided', () => {
+    const result = scoreRound('match', makeInput({
+      scores: { a: [3, 3, 3, 3, 3, 4, 4, 4, 4], b: ALL_PARS },
+      config: { sideA: ['a'], sideB: ['b'] }
+    }));
+
+    expect(result.matchHoles).toEqual(['A', 'A', 'A', 'A', 'A']);
+    expect(result.summary).toBe('5&4');
+    expect(result.winners).toEqual(['A']);
+  });
+
+  it('gives the higher handicap strokes in a net match', () => {
+    const result = scoreRound('match', makeInput({
+      scores: { a: ALL_PARS, b: [5, 4, 4, 4, 4, 4, 4, 4, 4] },
+      courseHandicaps: { a: 3, b: 4 },
+      scoringMode: 'net',
+      config: { sideA: ['a'], sideB: ['b'] }
+    }));
+
+    expect(result.matchHoles?.[0]).toBe('halved');
+    expect(result.summary).toBe('Halved');
+  });
+
+  it('halves a level match instead of tie-breaking it', () => {
+    const result = scoreRound('match', makeInput({
+      scores: { a: [3, 5, 4, 4, 4, 4, 4, 4, 4], b: ALL_PARS },
+      config: { sideA: ['a'], sideB: ['b'], tieBreak: 'countback' }
+    }));
+
+    expect(result.summary).toBe('Halved');
+    expect(result.winners).toEqual(['A', 'B']);
+    expect(result.tied).toBe(true);
+  });
+
+  it('counts a four-ball hole where every partner picked up as net double bogey', () => {
+    const result = scoreRound('fourball', makeInput({
+      players: ['a', 'b', 'c', 'd'],
+      scores: { a: [0, ...ALL_PARS.slice(1)], b: [0, ...ALL_PARS.slice(1)], c: ALL_PARS, d: ALL_PARS },
+      pickedUp: { a: [0], b: [0] },
+      courseHandicaps: { a: 0, b: 0, c: 0, d: 0 },
+      config: {
+        teams: [
+          { id: 't1', name: 'Team 1', players: ['a', 'b'] },
+          { id: 't2', name: 'Team 2', players: ['c', 'd'] }
+        ]
+      }
+    }));
+
+    const team = result.standings.find(standing => standing.id === 't1');
+    expect(team?.grossHoles[0]).toBe(6);
+    expect(team?.gross).toBe(38);
+    expect(result.winners).toEqual(['t2']);
+  });
+
+  it('scores a scramble off the team handicap', () => {
+    const result = scoreRound('scramble', makeInput({
+      courseHandicaps: { a: 10, b: 20 },
+      scoringMode: 'net',
+      config: {
+        teams: [{ id: 't1', name: 'Team 1', players: ['a', 'b'] }],
+        teamScores: { t1: ALL_PARS },
+        teamHandicapPercents: [35, 15]
+      }
+    }));
+
+    expect(result.standings[0]).toMatchObject({ gross: 36, handicap: 7, net: 29 });
+  });
+});
+
+describe('resolveTie', () => {
+  const contenders = [
+    { id: 'a', holes: [3, 4, 4, 4, 4, 4, 4, 4, 5] },
+    { id: 'b', holes: ALL_PARS }
+  ];
+
+  it('leaves a single leader alone', () => {
+    expect(resolveTie(contenders.slice(0, 1), true, 'countback')).toEqual({ winners: ['a'] });
+  });
+
+  it('compares the closing holes on countback', () => {
+    expect(resolveTie(contenders, true, 'countback')).toEqual({ winners: ['b'], decidedBy: 'Countback (last 6)' });
+  });
+
+  it('favours the higher closing total when higher is better', () => {
+    expect(resolveTie(contenders, false, 'countback')).toEqual({ winners: ['a'], decidedBy: 'Countback (last 6)' });
+  });
+
+  it('stays tied when every countback segment is level', () => {
+    expect(resolveTie([{ id: 'a', holes: ALL_PARS }, { id: 'b', holes: ALL_PARS }], true, 'countback')).toEqual({
+      winners: ['a', 'b']
+    });
+  });
+
+  it('waits for every contender to finish a playoff hole', () => {
+    const playoff = [{ id: 'a', holes: [4, 3] }, { id: 'b', holes: [4] }];
+    expect(resolveTie(contenders, true, 'playoff', playoff)).toEqual({ winners: ['a', 'b'] });
+  });
+});
+
+describe('scoreSideGames', () => {
+  it('leaves out games that are not being played', () => {
+    expect(scoreSideGames(makeInput(), {})).toEqual({ skins: null, nassau: null, wolf: null, pointGames: null });
+  });
+
+  it('needs four players for Wolf', () => {
+    const result = scoreSideGames(makeInput(), { wolf: { order: ['a', 'b'], mode: 'gross', decisions: {} } });
+    expect(result.wolf).toBeNull();
+  });
+
+  it('plays net skins off full course handicap strokes', () => {
+    const input = makeInput({ scores: { a: ALL_PARS, b: [5, 4, 4, 4, 4, 4, 4, 4, 4] }, courseHandicaps: { a: 0, b: 1 } });
+    const options = { mode: 'net' as const, carryovers: false, validation: false, value: 1 };
+
+    expect(scoreSideGames(input, { skins: options }).skins?.holes[0].status).toBe('void');
+    expect(scoreSideGames(input, { skins: { ...options, mode: 'gross' } }).skins?.holes[0].winner).toBe('a');
+  });
+
+  it('counts a stroke-play Nassau pickup as net double bogey', () => {
+    const input = makeInput({ scores: { a: [0, ...ALL_PARS.slice(1)], b: ALL_PARS }, pickedUp: { a: [0] } });
+    const nassau = scoreSideGames(input, {
+      nassau: {
+        sideA: ['a'],
+        sideB: ['b'],
+        options: { stake: 5, scoring: 'stroke', mode: 'gross', presses: 'none' },
+        presses: []
+      }
+    }).nassau!;
+
+    expect(nassau.bets[0]).toMatchObject({ name: 'Front 9', lead: -2, winningSide: 'B' });
+  });
+
+  it('loses a match-play Nassau hole to a pickup', () => {
+    const input = makeInput({ scores: { a: [0, ...ALL_PARS.slice(1)], b: ALL_PARS }, pickedUp: { a: [0] } });
+    const nassau = scoreSideGames(input, {
+      nassau: {
+        sideA: ['a'],
+        sideB: ['b'],
+        options: { stake: 5, scoring: 'match', mode: 'gross', presses: 'none' },
+        presses: []
+      }
+    }).nassau!;
+
+    expect(nassau.bets[0]).toMatchObject({ lead: -1, winningSide: 'B' });
+  });
+});
+
+describe('getStrokeScores', () => {
+  it('caps a pickup at net double bogey and leaves the rest alone', () => {
+    const input = makeInput({ scores: { a: [0, 5, 4, 4, 4, 4, 4, 4, 4], b: ALL_PARS }, pickedUp: { a: [0] } });
+    expect(getStrokeScores(input).a.slice(0, 2)).toEqual([6, 5]);
+    expect(getStrokeScores(input).a).not.toContain(PICKED_UP_SCORE);
+  });
+});
+
+describe('getReceivedStrokes', () => {
+  const input = makeInput({ courseHandicaps: { a: 2, b: 5 }, scoringMode: 'net' });
+
+  it('gives full course handicap strokes in stroke play', () => {
+    expect(getReceivedStrokes('stroke', input, 'b')).toEqual([1, 1, 1, 1, 1, 0, 0, 0, 0]);
+  });
+
+  it('plays a net match off the low handicap', () => {
+    expect(getReceivedStrokes('match', input, 'a')).toEqual(new Array(9).fill(0));
+    expect(getReceivedStrokes('match', input, 'b')).toEqual([1, 1, 1, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('gives no strokes when playing gross', () => {
+    expect(getReceivedStrokes('stroke', { ...input, scoringMode: 'gross' }, 'b')).toEqual(new Array(9).fill(0));
+  });
+});
+
+describe('getRoundSideGames', () => {
+  const round = {
+    players: ['a', 'b'],
+    skins: { mode: 'net', carryovers: true, validation: false, value: 2, holes: [], totals: [] } as SkinsResult,
+    nassau: {
+      sideA: ['a'],
+      sideB: ['b'],
+      stake: 5,
+      scoring: 'match',
+      mode: 'gross',
+      presses: 'manual',
+      bets: [
+        { name: 'Front 9', startHole: 0, endHole: 9, lead: 0, complete: false, winningSide: null },
+        { name: 'Front press from 5', startHole: 4, endHole: 9, lead: 0, complete: false, winningSide: null }
+      ],
+      settlement: []
+    } as NassauResult,
+    pointGames: {
+      bingoBangoBongo: true,
+      dots: false,
+      value: 1,
+      events: [{ hole: 0, uid: 'a', event: 'bingo' }, { hole: 0, uid: 'c', event: 'bango' }],
+      totals: []
+    } as PointGamesResult
+  } as unknown as Round;
+
+  it('reads back the options each game was played with', () => {
+    const games = getRoundSideGames(round);
+
+    expect(games.skins).toEqual({ mode: 'net', carryovers: true, validation: false, value: 2 });
+    expect(games.nassau?.options).toEqual({ stake: 5, scoring: 'match', mode: 'gross', presses: 'manual' });
+    expect(games.wolf).toBeUndefined();
+  });
+
+  it('recovers manual presses from the bets they opened', () => {
+    expect(getRoundSideGames(round).nassau?.presses).toEqual([4]);
+  });
+
+  it('drops point events for players no longer on the round', () => {
+    expect(getRoundSideGames(round).pointGames?.events).toEqual([{ hole: 0, uid: 'a', event: 'bingo' }]);
+  });
+});
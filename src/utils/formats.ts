@@ -0,0 +1,481 @@
+import type {
+  GameFormat,
+  MatchHoleResult,
+  NassauResult,
+  PlayoffScore,
+  PointEventRecord,
+  PointGamesResult,
+  Round,
+  ScoringMode,
+  SkinsResult,
+  StablefordVariant,
+  TieBreak,
+  WolfResult
+} from './firebase';
+import { allocateStrokes, getHoleMaximums, getNetHoles } from './handicap';
+import { formatMatchStatus, getMatchHoles, getMatchState, getMatchStrokes } from './matchPlay';
+import { calculateNassau, NassauOptions } from './nassau';
+import { calculatePointGames, PointGamesOptions } from './pointGames';
+import { getHoleIndexes, getHolePars } from './scorecard';
+import { getPlayerHoles, rankTotals, RankedEntry, sumHoles, withPickups } from './scoring';
+import { calculateSkins, SkinsOptions } from './skins';
+import { getStablefordHoles, getStablefordLabel } from './stableford';
+import { getBestBallHoles, getTeamHandicap, TeamDraft } from './teams';
+import { resolveTie } from './ties';
+import { calculateWolf, WOLF_PLAYERS, WolfDecision } from './wolf';
+
+// The format engine. Every game format is a pure definition in FORMATS that
+// turns hole scores into standings; ranking, winners and ties are shared.
+// Net scoring isn't a separate format but the `scoringMode` every format
+// honours, using the handicap strokes it calls for.
+
+export interface FormatConfig {
+  stablefordVariant?: StablefordVariant;
+  sideA?: string[];
+  sideB?: string[];
+  teams?: TeamDraft[];
+  teamScores?: { [teamId: string]: number[] };
+  teamHandicapPercents?: number[];
+  teamHandicaps?: { [teamId: string]: number }; // Saved scramble handicaps, for re-scoring without the players' course handicaps
+  tieBreak?: TieBreak;
+  playoff?: PlayoffScore[];
+}
+
+export interface ScoringInput {
+  players: string[];
+  holeCount: number;
+  pars: number[];
+  holeIndexes: number[];
+  scores: { [uid: string]: number[] }; // Gross hole scores, 0 when not played
+  pickedUp?: { [uid: string]: number[] }; // 0-based holes scored "X"
+  courseHandicaps: { [uid: string]: number };
+  scoringMode: ScoringMode;
+  config: FormatConfig;
+}
+
+// One player, side or team in a format's results
+export interface Standing {
+  id: string; // uid, match side ('A'/'B') or team id
+  name?: string;
+  players: string[];
+  holes: number[]; // Per-hole value in the format's unit
+  grossHoles: number[];
+  gross: number;
+  net: number;
+  handicap: number;
+  total: number; // What the format ranks by
+  incomplete?: boolean; // Has no valid total, e.g. picked up in stroke play
+}
+
+export interface FormatResult {
+  standings: (Standing & RankedEntry)[];
+  winners: string[]; // Standing ids sharing the win after any tie-break
+  tied: boolean;
+  decidedBy?: string;
+  summary?: string; // e.g. "3&2" for match play
+  matchHoles?: MatchHoleResult[];
+}
+
+// Side games played alongside the format, each with its own options. A game
+// left out isn't being played.
+export interface SideGames {
+  skins?: SkinsOptions;
+  nassau?: { sideA: string[]; sideB: string[]; options: NassauOptions; presses: number[] };
+  wolf?: { order: string[]; mode: ScoringMode; decisions: { [hole: number]: WolfDecision } };
+  pointGames?: { options: PointGamesOptions; events: PointEventRecord[] };
+}
+
+// Null for a game that isn't being played or doesn't have the players for it
+export interface SideGameResults {
+  skins: SkinsResult | null;
+  nassau: NassauResult | null;
+  wolf: WolfResult | null;
+  pointGames: PointGamesResult | null;
+}
+
+export interface ConfigField {
+  key: keyof FormatConfig;
+  label: string;
+  options: { value: string; label: string }[];
+}
+
+export interface FormatDefinition {
+  id: GameFormat;
+  label: string;
+  unit: string;
+  lowerIsBetter: boolean;
+  // Who the standings are for: individual players, two match sides, or teams
+  participants: 'players' | 'sides' | 'teams';
+  configFields: ConfigField[];
+  // Defaults applied when the format is picked
+  defaultScoringMode?: ScoringMode;
+  getStandings: (input: ScoringInput) => Standing[];
+  getSummary?: (input: ScoringInput) => Pick<FormatResult, 'summary' | 'matchHoles'>;
+}
+
+// Strokes from a player's full course handicap
+const getHandicapStrokes = (input: ScoringInput, uid: string): number[] =>
+  allocateStrokes(input.courseHandicaps[uid] || 0, input.holeIndexes);
+
+// Strokes a player receives on each hole, none when playing gross
+export const getPlayerStrokes = (input: ScoringInput, uid: string): number[] =>
+  input.scoringMode === 'net' ? getHandicapStrokes(input, uid) : new Array(input.holeCount).fill(0);
+
+const getHoles = (input: ScoringInput, uid: string) =>
+  Array.from({ length: input.holeCount }, (_, i) => input.scores[uid]?.[i] || 0);
+
+const getPickedUp = (input: ScoringInput, uid: string) => input.pickedUp?.[uid] || [];
+
+// Gross holes with any pickup counted as net double bogey, for formats that
+// add strokes up rather than only comparing holes
+const getCappedHoles = (input: ScoringInput, uid: string) => {
+  const maximums = getHoleMaximums(input.pars, getHandicapStrokes(input, uid), true);
+  const pickedUp = getPickedUp(input, uid);
+  return getHoles(input, uid).map((score, i) => (pickedUp.includes(i) ? maximums[i] : score));
+};
+
+const getPlayerStanding = (input: ScoringInput, uid: string, holes: number[], total: number): Standing => {
+  const gross = getHoles(input, uid);
+  return {
+    id: uid,
+    players: [uid],
+    holes,
+    grossHoles: gross,
+    gross: sumHoles(gross),
+    net: sumHoles(getNetHoles(gross, getPlayerStrokes(input, uid))),
+    handicap: input.courseHandicaps[uid] || 0,
+    total
+  };
+};
+
+const strokePlay: FormatDefinition = {
+  id: 'stroke',
+  label: 'Stroke Play',
+  unit: 'strokes',
+  lowerIsBetter: true,
+  participants: 'players',
+  configFields: [],
+  // A pickup leaves no total to compare, so that card can't win
+  getStandings: input => input.players.map(uid => {
+    const holes = getNetHoles(getHoles(input, uid), getPlayerStrokes(input, uid));
+    return {
+      ...getPlayerStanding(input, uid, holes, sumHoles(holes)),
+      ...(getPickedUp(input, uid).length > 0 ? { incomplete: true } : {})
+    };
+  })
+};
+
+const stableford: FormatDefinition = {
+  id: 'stableford',
+  label: 'Stableford',
+  unit: 'pts',
+  lowerIsBetter: false,
+  participants: 'players',
+  // Stableford is almost always played off handicap
+  defaultScoringMode: 'net',
+  configFields: [
+    {
+      key: 'stablefordVariant',
+      label: 'Points Table',
+      options: [
+        { value: 'standard', label: 'Standard (2 for par)' },
+        { value: 'modified', label: 'Modified (0 for par, minus for bogeys)' }
+      ]
+    }
+  ],
+  getStandings: input => input.players.map(uid => {
+    const points = getStablefordHoles(
+      withPickups(getHoles(input, uid), getPickedUp(input, uid)),
+      input.pars,
+      getPlayerStrokes(input, uid),
+      input.config.stablefordVariant || 'standard'
+    );
+    return getPlayerStanding(input, uid, points, sumHoles(points));
+  })
+};
+
+// Net matches give strokes off the lowest handicap rather than full course
+// handicaps. A pickup loses the hole to any score.
+export const getMatchScores = (input: ScoringInput) => {
+  const strokes = input.scoringMode === 'net' ? getMatchStrokes(input.courseHandicaps, input.holeIndexes) : {};
+  return Object.fromEntries(
+    input.players.map(uid => [
+      uid,
+      withPickups(getNetHoles(getHoles(input, uid), strokes[uid] || []), getPickedUp(input, uid))
+    ])
+  );
+};
+
+// The same scores for games that add strokes up, e.g. a stroke-play Nassau,
+// where a pickup counts as net double bogey rather than a number that only
+// works for losing a hole
+export const getStrokeScores = (input: ScoringInput) => {
+  const strokes = input.scoringMode === 'net' ? getMatchStrokes(input.courseHandicaps, input.holeIndexes) : {};
+  return Object.fromEntries(
+    input.players.map(uid => [uid, getNetHoles(getCappedHoles(input, uid), strokes[uid] || [])])
+  );
+};
+
+const getMatchPlayHoles = (input: ScoringInput) =>
+  getMatchHoles(input.config.sideA || [], input.config.sideB || [], getMatchScores(input), input.holeCount);
+
+const matchPlay: FormatDefinition = {
+  id: 'match',
+  label: 'Match Play',
+  unit: 'holes',
+  lowerIsBetter: false,
+  participants: 'sides',
+  configFields: [],
+  getStandings: input => {
+    const results = getMatchPlayHoles(input);
+    const side = (id: 'A' | 'B', players: string[]): Standing => {
+      const holes = results.map(result => (result === id ? 1 : 0));
+      return {
+        id,
+        players,
+        holes,
+        grossHoles: [],
+        gross: 0,
+        net: 0,
+        handicap: 0,
+        total: sumHoles(holes)
+      };
+    };
+    return [side('A', input.config.sideA || []), side('B', input.config.sideB || [])];
+  },
+  getSummary: input => {
+    const matchHoles = getMatchPlayHoles(input);
+    return { matchHoles, summary: formatMatchStatus(getMatchState(matchHoles, input.holeCount)) };
+  }
+};
+
+const getTeamStanding = (team: TeamDraft, holes: number[], netHoles: number[], handicap: number, mode: ScoringMode): Standing => ({
+  id: team.id,
+  name: team.name,
+  players: team.players,
+  holes: mode === 'net' ? netHoles : holes,
+  grossHoles: holes,
+  gross: sumHoles(holes),
+  net: sumHoles(netHoles),
+  handicap,
+  total: mode === 'net' ? sumHoles(netHoles) : sumHoles(holes)
+});
+
+// Best individual ball per hole, net of each player's own strokes. A pickup
+// counts as net double bogey, so a hole where every partner picked up still
+// costs the team strokes.
+const fourBall: FormatDefinition = {
+  id: 'fourball',
+  label: 'Four-Ball (Best Ball)',
+  unit: 'strokes',
+  lowerIsBetter: true,
+  participants: 'teams',
+  configFields: [],
+  getStandings: input => (input.config.teams || []).map(team => {
+    const grossScores = Object.fromEntries(team.players.map(uid => [uid, getCappedHoles(input, uid)]));
+    const netScores = Object.fromEntries(
+      team.players.map(uid => [uid, getNetHoles(grossScores[uid], getHandicapStrokes(input, uid))])
+    );
+    return getTeamStanding(
+      team,
+      getBestBallHoles(team.players, grossScores, input.holeCount),
+      getBestBallHoles(team.players, netScores, input.holeCount),
+      0,
+      input.scoringMode
+    );
+  })
+};
+
+// One team ball per hole, with strokes from the weighted team handicap
+const scramble: FormatDefinition = {
+  id: 'scramble',
+  label: 'Scramble',
+  unit: 'strokes',
+  lowerIsBetter: true,
+  participants: 'teams',
+  configFields: [],
+  getStandings: input => (input.config.teams || []).map(team => {
+    const holes = Array.from({ length: input.holeCount }, (_, i) => input.config.teamScores?.[team.id]?.[i] || 0);
+    const handicap = input.config.teamHandicaps?.[team.id] ?? getTeamHandicap(
+      team.players.map(uid => input.courseHandicaps[uid] || 0),
+      input.config.teamHandicapPercents || []
+    );
+    const netHoles = getNetHoles(holes, allocateStrokes(handicap, input.holeIndexes));
+    return getTeamStanding(team, holes, netHoles, handicap, input.scoringMode);
+  })
+};
+
+export const FORMATS: { [id in GameFormat]: FormatDefinition } = {
+  stroke: strokePlay,
+  stableford,
+  match: matchPlay,
+  fourball: fourBall,
+  scramble
+};
+
+export const FORMAT_LIST: FormatDefinition[] = Object.values(FORMATS);
+
+export const getFormat = (id: GameFormat | undefined): FormatDefinition => FORMATS[id || 'stroke'] || strokePlay;
+
+// Strokes a player actually receives on each hole in this format: off the low
+// handicap in a net match, full course handicap otherwise, none when gross
+export const getReceivedStrokes = (format: GameFormat | undefined, input: ScoringInput, uid: string): number[] => {
+  if (input.scoringMode === 'net' && getFormat(format).id === 'match') {
+    return getMatchStrokes(input.courseHandicaps, input.holeIndexes)[uid] || new Array(input.holeCount).fill(0);
+  }
+  return getPlayerStrokes(input, uid);
+};
+
+// Ranks a format's standings and settles a tie for first with the round's
+// tie-break. A level match is halved rather than tie-broken.
+export const scoreRound = (format: GameFormat | undefined, input: ScoringInput): FormatResult => {
+  const definition = getFormat(format);
+  const all = definition.getStandings(input);
+  const ranked = rankTotals(all.filter(standing => !standing.incomplete), definition.lowerIsBetter);
+  // Incomplete cards share last place behind everyone with a total
+  const standings = [
+    ...ranked,
+    ...all.filter(standing => standing.incomplete).map(standing => ({ ...standing, position: ranked.length + 1 }))
+  ];
+  const leaders = ranked.filter(standing => standing.position === 1);
+  const { winners, decidedBy } = resolveTie(
+    leaders,
+    definition.lowerIsBetter,
+    definition.participants === 'sides' ? 'shared' : input.config.tieBreak || 'countback',
+    input.config.playoff
+  );
+
+  return {
+    standings,
+    winners,
+    tied: winners.length > 1,
+    ...(decidedBy ? { decidedBy } : {}),
+    ...(definition.getSummary ? definition.getSummary(input) : {})
+  };
+};
+
+// Side games settle with their own gross/net choice. Skins give full course
+// handicap strokes, matches between sides play off the low man.
+export const scoreSideGames = (input: ScoringInput, games: SideGames): SideGameResults => {
+  const { skins, nassau, wolf, pointGames } = games;
+  const withMode = (scoringMode: ScoringMode) => ({ ...input, scoringMode });
+
+  const skinsScores = skins && Object.fromEntries(
+    input.players.map(uid => [
+      uid,
+      withPickups(getNetHoles(getHoles(input, uid), getPlayerStrokes(withMode(skins.mode), uid)), getPickedUp(input, uid))
+    ])
+  );
+  const nassauScores = nassau && (nassau.options.scoring === 'stroke'
+    ? getStrokeScores(withMode(nassau.options.mode))
+    : getMatchScores(withMode(nassau.options.mode)));
+
+  return {
+    skins: skins && input.players.length > 1
+      ? calculateSkins(input.players, skinsScores!, input.holeCount, skins)
+      : null,
+    nassau: nassau && nassau.sideA.length > 0 && nassau.sideB.length > 0
+      ? calculateNassau(nassau.sideA, nassau.sideB, nassauScores!, nassau.options, nassau.presses)
+      : null,
+    // Tee order is the order players were picked in
+    wolf: wolf && wolf.order.length === WOLF_PLAYERS
+      ? calculateWolf(wolf.order, getMatchScores(withMode(wolf.mode)), input.holeCount, wolf.decisions, wolf.mode)
+      : null,
+    pointGames: pointGames && input.players.length > 1
+      ? calculatePointGames(input.players, pointGames.events, pointGames.options, input.holeCount)
+      : null
+  };
+};
+
+// Rebuilds the engine input from a saved round, e.g. for history and stats
+export const getRoundScoringInput = (round: Round): ScoringInput => {
+  const holeCount = round.holeCount || round.scores[0]?.holes.length || 18;
+
+  return {
+    players: round.players,
+    holeCount,
+    pars: getHolePars(round, holeCount),
+    holeIndexes: getHoleIndexes(round, holeCount),
+    scores: Object.fromEntries(round.players.map(uid => [uid, getPlayerHoles(round, uid)])),
+    pickedUp: Object.fromEntries(round.scores.map(s => [s.uid, s.pickedUp || []])),
+    courseHandicaps: Object.fromEntries(round.scores.map(s => [s.uid, s.courseHandicap || 0])),
+    scoringMode: round.scoringMode || 'gross',
+    config: {
+      stablefordVariant: round.stablefordVariant,
+      sideA: round.match?.sideA,
+      sideB: round.match?.sideB,
+      teams: round.teams?.map(({ id, name, players }) => ({ id, name, players })),
+      teamScores: Object.fromEntries((round.teams || []).map(team => [team.id, team.holes])),
+      teamHandicapPercents: round.teamHandicapPercents,
+      // Scramble rounds don't keep the players' course handicaps, only the team's
+      ...(round.format === 'scramble' ? { teamHandicaps: Object.fromEntries((round.teams || []).map(team => [team.id, team.handicap])) } : {}),
+      // Older rounds went to whoever was listed first, so leave their ties shared
+      tieBreak: round.tieBreak || 'shared',
+      playoff: round.playoff
+    }
+  };
+};
+
+export const scoreSavedRound = (round: Round): FormatResult => scoreRound(round.format, getRoundScoringInput(round));
+
+// The side games a saved round was played with, read back from their results.
+// Manual presses are only known from the bets they opened, and only players
+// still on the round keep their point events.
+export const getRoundSideGames = (round: Round): SideGames => {
+  const { skins, nassau, wolf, pointGames } = round;
+
+  return {
+    ...(skins
+      ? { skins: { mode: skins.mode, carryovers: skins.carryovers, validation: skins.validation, value: skins.value } }
+      : {}),
+    ...(nassau
+      ? {
+          nassau: {
+            sideA: nassau.sideA,
+            sideB: nassau.sideB,
+            options: { stake: nassau.stake, scoring: nassau.scoring, mode: nassau.mode, presses: nassau.presses },
+            presses: nassau.bets.filter(bet => bet.name.includes('press')).map(bet => bet.startHole)
+          }
+        }
+      : {}),
+    ...(wolf
+      ? {
+          wolf: {
+            order: wolf.order,
+            mode: wolf.mode,
+            decisions: wolf.holes.reduce<{ [hole: number]: WolfDecision }>(
+              (decisions, hole, i) => (hole.choice ? { ...decisions, [i]: { choice: hole.choice, partner: hole.partner } } : decisions),
+              {}
+            )
+          }
+        }
+      : {}),
+    ...(pointGames
+      ? {
+          pointGames: {
+            options: { bingoBangoBongo: pointGames.bingoBangoBongo, dots: pointGames.dots, value: pointGames.value },
+            events: pointGames.events.filter(event => round.players.includes(event.uid))
+          }
+        }
+      : {})
+  };
+};
+
+// Short description of how a round was won, e.g. "Net", "Modified Stableford" or "Match Play · Gross"
+export const getRoundFormatLabel = (round: Pick<Round, 'format' | 'scoringMode' | 'stablefordVariant'>) => {
+  const mode = round.scoringMode === 'net' ? 'Net' : 'Gross';
+  const format = getFormat(round.format);
+
+  if (format.id === 'stroke') {
+    return mode;
+  }
+  if (format.id === 'stableford') {
+    const label = getStablefordLabel(round.stablefordVariant || 'standard');
+    return round.scoringMode === 'net' ? label : `${label} · ${mode}`;
+  }
+  return `${format.id === 'fourball' ? 'Four-Ball' : format.label} · ${mode}`;
+};
+
+// Heading over a round's winners, e.g. "Winner · Net" or "Shared win · Stableford"
+export const getWinnerLabel = (round: Pick<Round, 'format' | 'scoringMode' | 'stablefordVariant' | 'tied'>) =>
+  `${round.tied ? 'Shared win' : 'Winner'} · ${getRoundFormatLabel(round)}`;
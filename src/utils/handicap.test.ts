@@ -0,0 +1,213 @@
+import type { Course, Round, RoundScore } from './firebase';
+import {
+  allocateStrokes,
+  calculateHandicapIndex,
+  getAdjustedHoles,
+  getCourseHandicap,
+  getCurrentIndex,
+  getHandicapHistory,
+  getNetHoles,
+  getNetScoreFields,
+  getPlayingIndex,
+  getRoundTee,
+  getScoreDifferential,
+  getScoreRecords,
+  isAcceptableScore,
+  MAX_HANDICAP_INDEX
+} from './handicap';
+import { fours, makeRound } from '../test/fixtures';
+
+const TEE = { id: 'white', name: 'White', rating: 72, slope: 113, par: 72 };
+const INDEXES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// Par fours with the first `over` holes bogeyed
+const bogeys = (holeCount: number, over: number) =>
+  Array.from({ length: holeCount }, (_, i) => (i < over ? 5 : 4));
+
+// One card for player "a" off the white tee
+const makeCard = (id: string, date: string, score: Omit<RoundScore, 'uid'>, overrides: Partial<Round> = {}): Round =>
+  makeRound({ id, date, scores: [{ uid: 'a', tee: TEE, ...score }], ...overrides });
+
+describe('getCourseHandicap', () => {
+  it('is the index on a neutral course', () => {
+    expect(getCourseHandicap(10, TEE)).toBe(10);
+  });
+
+  it('scales by slope and adds the rating over par', () => {
+    expect(getCourseHandicap(10, { rating: 73, slope: 130, par: 72 })).toBe(13);
+  });
+
+  it('halves the index for nine holes of an 18-hole course', () => {
+    expect(getCourseHandicap(10, TEE, 9)).toBe(5);
+  });
+});
+
+describe('allocateStrokes', () => {
+  it('hands out strokes from the hardest hole', () => {
+    expect(allocateStrokes(2, [3, 1, 2])).toEqual([0, 1, 1]);
+  });
+
+  it('goes round again when there are more strokes than holes', () => {
+    expect(allocateStrokes(10, INDEXES)).toEqual([2, 1, 1, 1, 1, 1, 1, 1, 1]);
+  });
+
+  it('gives strokes back from the easiest hole for plus handicaps', () => {
+    expect(allocateStrokes(-1, INDEXES)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, -1]);
+  });
+});
+
+describe('getNetScoreFields', () => {
+  const holes = [5, 5, 5, 4, 4, 4, 4, 4, 4];
+
+  it('takes the course handicap off the gross', () => {
+    expect(getNetScoreFields(holes, 10, TEE, INDEXES, fours(9))).toEqual({
+      gross: 39,
+      net: 34,
+      adjustedGross: 39,
+      courseHandicap: 5,
+      strokes: [1, 1, 1, 1, 1, 0, 0, 0, 0],
+      handicapIndex: 10
+    });
+  });
+
+  it('plays a player without a handicap off scratch', () => {
+    const fields = getNetScoreFields([11, ...holes.slice(1)], null, TEE, INDEXES, fours(9));
+
+    expect(fields).toMatchObject({ gross: 45, net: 45, adjustedGross: 43, courseHandicap: 0 });
+    expect(fields).not.toHaveProperty('handicapIndex');
+  });
+});
+
+describe('getNetHoles', () => {
+  it('leaves unplayed holes at zero', () => {
+    expect(getNetHoles([5, 0, 4], [1, 1, 0])).toEqual([4, 0, 4]);
+  });
+});
+
+describe('getAdjustedHoles', () => {
+  const pars = [4, 4, 4];
+
+  it('caps played holes at net double bogey', () => {
+    expect(getAdjustedHoles([9, 7, 4], pars, [1, 0, 0])).toEqual([7, 6, 4]);
+  });
+
+  it('counts a pickup as net double bogey and an unplayed hole as net par', () => {
+    expect(getAdjustedHoles([0, 0, 4], pars, [1, 1, 0], [0])).toEqual([7, 5, 4]);
+  });
+
+  it('caps at par plus five without an index', () => {
+    expect(getAdjustedHoles([11, 0, 4], pars, [], [], false)).toEqual([9, 4, 4]);
+  });
+});
+
+describe('isAcceptableScore', () => {
+  it('allows a couple of holes unplayed on a nine', () => {
+    expect(isAcceptableScore([4, 4, 4, 4, 4, 4, 4, 0, 0])).toBe(true);
+    expect(isAcceptableScore([4, 4, 4, 4, 4, 4, 0, 0, 0])).toBe(false);
+    expect(isAcceptableScore([4, 4, 4, 4, 4, 4, 0, 0, 0], [6])).toBe(true);
+  });
+});
+
+describe('getScoreDifferential', () => {
+  it('adjusts the score over rating for slope', () => {
+    expect(getScoreDifferential(85, 72, 113)).toBe(13);
+    expect(getScoreDifferential(85, 72, 130)).toBe(11.3);
+  });
+});
+
+describe('calculateHandicapIndex', () => {
+  it('needs at least three scores', () => {
+    expect(calculateHandicapIndex([10, 12])).toBeNull();
+  });
+
+  it('adjusts the lowest differential for a short history', () => {
+    expect(calculateHandicapIndex([10, 12, 14])).toBe(8);
+  });
+
+  it('averages the best 8 of the most recent 20', () => {
+    const differentials = [30, ...Array.from({ length: 20 }, (_, i) => i + 1)];
+    expect(calculateHandicapIndex(differentials)).toBe(4.5);
+  });
+
+  it('averages the best two of six and takes a stroke off', () => {
+    expect(calculateHandicapIndex([20, 18, 16, 14, 12, 10])).toBe(10);
+  });
+
+  it('never goes above the maximum index', () => {
+    expect(calculateHandicapIndex([80, 80, 80])).toBe(MAX_HANDICAP_INDEX);
+  });
+});
+
+describe('getScoreRecords', () => {
+  it('combines two nines into one 18-hole record', () => {
+    const rounds = [
+      makeCard('n1', '2024-05-01', { holes: bogeys(9, 5) }),
+      makeCard('n2', '2024-05-02', { holes: bogeys(9, 5) }),
+      makeCard('n3', '2024-05-03', { holes: bogeys(9, 1) })
+    ];
+
+    expect(getScoreRecords(rounds, 'a')).toEqual([
+      { roundId: 'n2', date: '2024-05-02', adjustedGross: 82, rating: 72, slope: 113, differential: 10 }
+    ]);
+  });
+
+  it('uses the full rating for a nine-hole course', () => {
+    const nineHoleTee = { ...TEE, rating: 36, par: 36 };
+    const course = { name: 'Nine', holes: 9, par: 36 } as Course;
+    const rounds = [
+      makeRound({ id: 'n1', date: '2024-05-01', course, scores: [{ uid: 'a', tee: nineHoleTee, holes: bogeys(9, 5) }] }),
+      makeRound({ id: 'n2', date: '2024-05-02', course, scores: [{ uid: 'a', tee: nineHoleTee, holes: bogeys(9, 5) }] })
+    ];
+
+    expect(getScoreRecords(rounds, 'a')).toEqual([
+      { roundId: 'n2', date: '2024-05-02', adjustedGross: 82, rating: 72, slope: 113, differential: 10 }
+    ]);
+  });
+
+  it('skips drafts and scores with too many holes unplayed', () => {
+    const rounds = [
+      makeCard('r1', '2024-05-01', { holes: bogeys(18, 10) }, { status: 'in_progress' }),
+      makeCard('r2', '2024-05-02', { holes: [...bogeys(13, 0), 0, 0, 0, 0, 0] })
+    ];
+
+    expect(getScoreRecords(rounds, 'a')).toEqual([]);
+  });
+});
+
+describe('getRoundTee', () => {
+  it('uses the tee stored on the score', () => {
+    expect(getRoundTee(makeCard('r1', '2024-05-01', { holes: fours(18) }), 'a')).toBe(TEE);
+  });
+
+  it('plays a legacy round off par and the standard slope', () => {
+    const legacy = makeRound({ scores: [{ uid: 'a', holes: fours(18) }] });
+    expect(getRoundTee(legacy, 'a')).toEqual({ id: 'default', name: 'Default', rating: 72, slope: 113, par: 72 });
+  });
+});
+
+describe('getHandicapHistory', () => {
+  it('revises the index after each score in date order', () => {
+    const rounds = [
+      makeCard('r3', '2024-05-03', { holes: bogeys(18, 14) }),
+      makeCard('r1', '2024-05-01', { holes: bogeys(18, 10) }),
+      makeCard('r2', '2024-05-02', { holes: bogeys(18, 12) })
+    ];
+    const history = getHandicapHistory(rounds, 'a');
+
+    expect(history.map(revision => [revision.roundId, revision.differential, revision.index])).toEqual([
+      ['r1', 10, null],
+      ['r2', 12, null],
+      ['r3', 14, 8]
+    ]);
+    expect(getCurrentIndex(history)).toBe(8);
+    expect(getCurrentIndex([])).toBeNull();
+  });
+});
+
+describe('getPlayingIndex', () => {
+  it('prefers the computed index over the starting handicap', () => {
+    expect(getPlayingIndex({ handicap: 18, handicapIndex: 12.4 })).toBe(12.4);
+    expect(getPlayingIndex({ handicap: 18 })).toBe(18);
+    expect(getPlayingIndex(null)).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+import type { HandicapRevision, Round, RoundScore, RoundTee, User } from './firebase';
+import { getHolePars } from './scorecard';
+import { isFinishedRound, normalizeRound } from './stats';
+
+export const MAX_HANDICAP_INDEX = 54;
+export const STANDARD_SLOPE = 113;
+
+// How many of the most recent differentials count, and the adjustment applied,
+// for players with fewer than 20 scores (WHS Rule 5.2)
+const DIFFERENTIALS_USED: { [count: number]: [number, number] } = {
+  3: [1, -2], 4: [1, -1], 5: [1, 0], 6: [2, -1], 7: [2, 0], 8: [2, 0],
+  9: [3, 0], 10: [3, 0], 11: [3, 0], 12: [4, 0], 13: [4, 0], 14: [4, 0],
+  15: [5, 0], 16: [5, 0], 17: [6, 0], 18: [6, 0], 19: [7, 0], 20: [8, 0]
+};
+
+export interface ScoreRecord {
+  roundId: string;
+  date: string;
+  adjustedGross: number;
+  rating: number;
+  slope: number;
+  differential: number;
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// The tee a player played: stored on the score since tee sets were added, then
+// the course snapshot's single rating, and finally scratch (par/113) for legacy rounds
+export const getRoundTee = (round: Round, uid: string): RoundTee => {
+  const playerScore = round.scores.find(s => s.uid === uid);
+  if (playerScore?.tee && playerScore.tee.rating && playerScore.tee.slope) {
+    return playerScore.tee;
+  }
+
+  const course = typeof round.course === 'string' ? null : round.course;
+  const coursePar = course?.par || round.par;
+  return {
+    id: 'default',
+    name: 'Default',
+    rating: course?.rating || coursePar,
+    slope: course?.slope || STANDARD_SLOPE,
+    par: coursePar
+  };
+};
+
+// Ratings are for the full course, so a nine on an 18-hole course gets half
+const getCourseHoles = (round: Round) =>
+  typeof round.course === 'string' ? 18 : round.course?.holes || 18;
+
+export const getScoreDifferential = (adjustedGross: number, rating: number, slope: number) =>
+  roundToTenth((STANDARD_SLOPE / (slope || STANDARD_SLOPE)) * (adjustedGross - rating));
+
+// A player without an index yet can't work out net double bogey, so their
+// holes are capped at par plus this many instead (WHS Rule 3.1)
+export const NO_INDEX_HOLE_MAX = 5;
+
+// Holes that may go unplayed while the score still counts: 4 of 18, 2 of 9
+const getAllowedUnplayed = (holeCount: number) => (holeCount >= 18 ? 4 : 2);
+
+// Most a hole can count for handicap purposes: net double bogey
+export const getHoleMaximums = (pars: number[], strokes: number[], hasIndex: boolean): number[] =>
+  pars.map((par, i) => (hasIndex ? par + 2 + (strokes[i] || 0) : par + NO_INDEX_HOLE_MAX));
+
+// Per-hole scores for handicap purposes. Played holes are capped at net double
+// bogey, a picked-up hole ("X") counts as net double bogey and a hole not
+// played counts as net par.
+export const getAdjustedHoles = (
+  holes: number[],
+  pars: number[],
+  strokes: number[],
+  pickedUp: number[] = [],
+  hasIndex = true
+): number[] => {
+  const maximums = getHoleMaximums(pars, strokes, hasIndex);
+  return pars.map((par, i) => {
+    if (pickedUp.includes(i)) return maximums[i];
+    if (!holes[i]) return par + (hasIndex ? strokes[i] || 0 : 0);
+    return Math.min(holes[i], maximums[i]);
+  });
+};
+
+export const getAdjustedGross = (...args: Parameters<typeof getAdjustedHoles>) =>
+  getAdjustedHoles(...args).reduce((sum, score) => sum + score, 0);
+
+// Enough holes played (or picked up) for the score to count towards a handicap
+export const isAcceptableScore = (holes: number[], pickedUp: number[] = []) => {
+  const played = holes.filter((score, i) => score > 0 || pickedUp.includes(i)).length;
+  return holes.length > 0 && holes.length - played <= getAllowedUnplayed(holes.length);
+};
+
+export const getPlayerAdjustedHoles = (round: Round, playerScore: RoundScore): number[] =>
+  getAdjustedHoles(
+    playerScore.holes,
+    getHolePars(round, playerScore.holes.length),
+    playerScore.strokes || [],
+    playerScore.pickedUp,
+    playerScore.handicapIndex !== undefined
+  );
+
+// Adjusted gross as saved with the round, or worked out again for rounds
+// saved before it was stored
+export const getPlayerAdjustedGross = (round: Round, playerScore: RoundScore): number =>
+  playerScore.adjustedGross ?? getPlayerAdjustedHoles(round, playerScore).reduce((sum, score) => sum + score, 0);
+
+// Chronological 18-hole score records for a player. Consecutive 9-hole rounds
+// are combined into one 18-hole record; a trailing unpaired nine waits for its partner.
+export const getScoreRecords = (rounds: Round[], uid: string): ScoreRecord[] => {
+  const sorted = rounds
+    .filter(isFinishedRound)
+    .map(normalizeRound)
+    .filter(round => round.players.includes(uid))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const records: ScoreRecord[] = [];
+  let pendingNine: Omit<ScoreRecord, 'differential'> | null = null;
+
+  sorted.forEach(round => {
+    const playerScore = round.scores.find(s => s.uid === uid);
+    if (!playerScore || !isAcceptableScore(playerScore.holes, playerScore.pickedUp)) {
+      return;
+    }
+
+    const tee = getRoundTee(round, uid);
+    const adjustedGross = getPlayerAdjustedGross(round, playerScore);
+
+    if (playerScore.holes.length === 9) {
+      const rating = getCourseHoles(round) === 9 ? tee.rating : tee.rating / 2;
+      const nine = { roundId: round.id || '', date: round.date, adjustedGross, rating, slope: tee.slope };
+
+      if (!pendingNine) {
+        pendingNine = nine;
+        return;
+      }
+
+      const combined = {
+        roundId: nine.roundId,
+        date: nine.date,
+        adjustedGross: pendingNine.adjustedGross + nine.adjustedGross,
+        rating: roundToTenth(pendingNine.rating + nine.rating),
+        slope: Math.round((pendingNine.slope + nine.slope) / 2)
+      };
+      records.push({ ...combined, differential: getScoreDifferential(combined.adjustedGross, combined.rating, combined.slope) });
+      pendingNine = null;
+      return;
+    }
+
+    if (playerScore.holes.length === 18) {
+      records.push({
+        roundId: round.id || '',
+        date: round.date,
+        adjustedGross,
+        rating: tee.rating,
+        slope: tee.slope,
+        differential: getScoreDifferential(adjustedGross, tee.rating, tee.slope)
+      });
+    }
+  });
+
+  return records;
+};
+
+// WHS course handicap: index × slope / 113 + (rating − par). For nine holes the
+// index is halved, and so are the rating and par when they're for 18 holes.
+export const getCourseHandicap = (
+  index: number,
+  tee: Pick<RoundTee, 'rating' | 'slope' | 'par'>,
+  holesPlayed = 18,
+  courseHoles = 18
+): number => {
+  const courseFraction = holesPlayed < courseHoles ? holesPlayed / courseHoles : 1;
+  const par = tee.par * courseFraction;
+  const rating = (tee.rating || tee.par) * courseFraction;
+  const slope = tee.slope || STANDARD_SLOPE;
+
+  return Math.round((index * (holesPlayed / 18) * slope) / STANDARD_SLOPE + (rating - par));
+};
+
+// Strokes received on each hole, handed out from the hardest stroke index among
+// the holes played. Plus handicaps give strokes back starting from the easiest.
+export const allocateStrokes = (courseHandicap: number, holeIndexes: number[]): number[] => {
+  const holeCount = holeIndexes.length;
+  const strokes = new Array(holeCount).fill(0);
+  if (holeCount === 0) {
+    return strokes;
+  }
+
+  const hardestFirst = holeIndexes
+    .map((strokeIndex, hole) => ({ strokeIndex, hole }))
+    .sort((a, b) => a.strokeIndex - b.strokeIndex)
+    .map(h => h.hole);
+
+  const sign = courseHandicap < 0 ? -1 : 1;
+  for (let k = 0; k < Math.abs(courseHandicap); k++) {
+    const position = k % holeCount;
+    const hole = sign > 0 ? hardestFirst[position] : hardestFirst[holeCount - 1 - position];
+    strokes[hole] += sign;
+  }
+
+  return strokes;
+};
+
+// Net score per hole; unplayed holes stay 0
+export const getNetHoles = (holes: number[], strokes: number[]): number[] =>
+  holes.map((score, i) => (score > 0 ? score - (strokes[i] || 0) : 0));
+
+// Gross, net and adjusted gross totals plus the stroke allocation saved on a
+// player's score entry. Players without any handicap play off scratch.
+export const getNetScoreFields = (
+  holes: number[],
+  index: number | null,
+  tee: Pick<RoundTee, 'rating' | 'slope' | 'par'>,
+  holeIndexes: number[],
+  pars: number[],
+  pickedUp: number[] = [],
+  courseHoles = 18
+): Required<Pick<RoundScore, 'gross' | 'net' | 'adjustedGross' | 'courseHandicap' | 'strokes'>> &
+  Pick<RoundScore, 'handicapIndex'> => {
+  const courseHandicap = index !== null ? getCourseHandicap(index, tee, holes.length, courseHoles) : 0;
+  const strokes = allocateStrokes(courseHandicap, holeIndexes);
+  const gross = holes.reduce((sum, score) => sum + (score || 0), 0);
+  const net = getNetHoles(holes, strokes).reduce((sum, score) => sum + score, 0);
+
+  return {
+    gross,
+    net,
+    adjustedGross: getAdjustedGross(holes, pars, strokes, pickedUp, index !== null),
+    courseHandicap,
+    strokes,
+    ...(index !== null ? { handicapIndex: index } : {})
+  };
+};
+
+// Best differentials of the most recent 20, or null until there are at least 3
+export const calculateHandicapIndex = (differentials: number[]): number | null => {
+  const recent = differentials.slice(-20);
+  const rule = DIFFERENTIALS_USED[recent.length];
+  if (!rule) {
+    return null;
+  }
+
+  const [count, adjustment] = rule;
+  const lowest = [...recent].sort((a, b) => a - b).slice(0, count);
+  const average = lowest.reduce((sum, d) => sum + d, 0) / count;
+
+  return Math.min(roundToTenth(average + adjustment), MAX_HANDICAP_INDEX);
+};
+
+// One revision per score record, with the index as it stood after that score
+export const getHandicapHistory = (rounds: Round[], uid: string): HandicapRevision[] => {
+  const records = getScoreRecords(rounds, uid);
+
+  return records.map((record, i) => ({
+    date: record.date,
+    roundId: record.roundId,
+    differential: record.differential,
+    index: calculateHandicapIndex(records.slice(0, i + 1).map(r => r.differential))
+  }));
+};
+
+export const getCurrentIndex = (history: HandicapRevision[]): number | null =>
+  history.length > 0 ? history[history.length - 1].index : null;
+
+// The computed index once there are enough scores, otherwise the player's starting handicap
+export const getPlayingIndex = (user: Pick<User, 'handicap' | 'handicapIndex'> | null | undefined): number | null => {
+  if (!user) return null;
+  if (user.handicapIndex !== undefined && user.handicapIndex !== null) return user.handicapIndex;
+  return user.handicap ?? null;
+};
@@ -0,0 +1,70 @@
+import type { HoleDetail, HoleStatTotals } from './firebase';
+
+export const EMPTY_HOLE_STATS: HoleStatTotals = {
+  trackedHoles: 0,
+  puttHoles: 0,
+  putts: 0,
+  greensHit: 0,
+  fairwayHoles: 0,
+  fairwaysHit: 0,
+  fairwaysLeft: 0,
+  fairwaysRight: 0,
+  penaltyHoles: 0,
+  penalties: 0,
+  upAndDownChances: 0,
+  upAndDowns: 0,
+  sandSaveChances: 0,
+  sandSaves: 0
+};
+
+// On the green with two putts to spare for par
+export const isGreenInRegulation = (score: number, par: number, putts?: number) =>
+  putts !== undefined && score > 0 && score - putts <= par - 2;
+
+export const hasHoleDetail = (detail?: HoleDetail) =>
+  !!detail && Object.values(detail).some(value => value !== undefined);
+
+// Firestore rejects undefined, so only keep what was actually recorded
+export const cleanHoleDetail = (detail: HoleDetail = {}): HoleDetail =>
+  Object.fromEntries(Object.entries(detail).filter(([, value]) => value !== undefined)) as HoleDetail;
+
+// Unset → made → missed → unset, for one-tap up-and-down and sand save entry
+export const cycleSave = (value?: boolean): boolean | undefined => {
+  if (value === undefined) return true;
+  return value ? false : undefined;
+};
+
+export const getHoleStatTotals = (holes: number[], pars: number[], details: HoleDetail[] = []): HoleStatTotals =>
+  details.reduce((totals, detail, i) => {
+    if (!hasHoleDetail(detail) || !holes[i]) return totals;
+    const count = (condition: boolean) => (condition ? 1 : 0);
+
+    return {
+      trackedHoles: totals.trackedHoles + 1,
+      puttHoles: totals.puttHoles + count(detail.putts !== undefined),
+      putts: totals.putts + (detail.putts || 0),
+      greensHit: totals.greensHit + count(isGreenInRegulation(holes[i], pars[i], detail.putts)),
+      fairwayHoles: totals.fairwayHoles + count(detail.fairway !== undefined),
+      fairwaysHit: totals.fairwaysHit + count(detail.fairway === 'hit'),
+      fairwaysLeft: totals.fairwaysLeft + count(detail.fairway === 'left'),
+      fairwaysRight: totals.fairwaysRight + count(detail.fairway === 'right'),
+      penaltyHoles: totals.penaltyHoles + count((detail.penalties || 0) > 0),
+      penalties: totals.penalties + (detail.penalties || 0),
+      upAndDownChances: totals.upAndDownChances + count(detail.upAndDown !== undefined),
+      upAndDowns: totals.upAndDowns + count(detail.upAndDown === true),
+      sandSaveChances: totals.sandSaveChances + count(detail.sandSave !== undefined),
+      sandSaves: totals.sandSaves + count(detail.sandSave === true)
+    };
+  }, EMPTY_HOLE_STATS);
+
+export const addHoleStats = (a: HoleStatTotals, b: HoleStatTotals): HoleStatTotals => {
+  const totals = { ...a };
+  (Object.keys(EMPTY_HOLE_STATS) as (keyof HoleStatTotals)[]).forEach(key => {
+    totals[key] += b[key];
+  });
+  return totals;
+};
+
+// e.g. "64%", or a dash when there has been no chance yet
+export const formatRate = (count: number, chances: number) =>
+  chances > 0 ? `${Math.round((count / chances) * 100)}%` : '–';
@@ -0,0 +1,41 @@
+import type { LiveScore } from './firebase';
+import { applyLiveScores, getOverwrittenCells, hasUnseenLiveScores } from './live';
+
+const cell = (score: number, by: string, at: number, pickedUp = false): LiveScore => ({ score, pickedUp, by, at });
+
+describe('applyLiveScores', () => {
+  it('overlays live holes and pickups on the saved card', () => {
+    const result = applyLiveScores({ holes: [4, 0, 5], pickedUp: [2] }, { 1: cell(3, 'a', 1), 2: cell(6, 'a', 2) });
+    expect(result).toEqual({ holes: [4, 3, 6], pickedUp: [] });
+  });
+
+  it('marks a live pickup', () => {
+    expect(applyLiveScores({ holes: [4, 4] }, { 0: cell(0, 'a', 1, true) })).toEqual({ holes: [0, 4], pickedUp: [0] });
+  });
+});
+
+describe('getOverwrittenCells', () => {
+  it('flags holes someone else changed after this user entered them', () => {
+    const previous = { a: { 0: cell(4, 'me', 1), 1: cell(5, 'me', 1) } };
+    const next = { a: { 0: cell(3, 'a', 2), 1: cell(5, 'a', 2) } };
+
+    expect(getOverwrittenCells(previous, next, 'me')).toEqual({ 'a-0': 'a' });
+  });
+});
+
+describe('hasUnseenLiveScores', () => {
+  const seen = { a: { 0: cell(4, 'a', 1) } };
+
+  it('is false when nothing has changed', () => {
+    expect(hasUnseenLiveScores(seen, { a: { 0: cell(4, 'a', 1) } })).toBe(false);
+  });
+
+  it('catches a new hole or player', () => {
+    expect(hasUnseenLiveScores(seen, { a: { 0: cell(4, 'a', 1), 1: cell(5, 'a', 2) } })).toBe(true);
+    expect(hasUnseenLiveScores(seen, { ...seen, b: { 0: cell(4, 'b', 2) } })).toBe(true);
+  });
+
+  it('catches a hole entered again', () => {
+    expect(hasUnseenLiveScores(seen, { a: { 0: cell(4, 'a', 3) } })).toBe(true);
+  });
+});
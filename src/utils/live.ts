@@ -0,0 +1,92 @@
+import type { LiveScore, Round, RoundScore } from './firebase';
+import { getHolePars } from './scorecard';
+import { RankedEntry, getHolesThru, getToPar, rankTotals } from './scoring';
+
+// Live scoring: on a round in progress each player enters their own card on
+// their own device, one hole at a time (Round.liveScores)
+
+export type LiveCells = { [hole: string]: LiveScore };
+export type LiveScores = NonNullable<Round['liveScores']>;
+
+export const getCellKey = (uid: string, hole: number) => `${uid}-${hole}`;
+
+// Overlays live entries on a player's holes and pickups
+export const applyLiveScores = (
+  score: Pick<RoundScore, 'holes' | 'pickedUp'>,
+  cells: LiveCells = {}
+): { holes: number[]; pickedUp: number[] } => {
+  const holes = [...score.holes];
+  const pickedUp = new Set(score.pickedUp || []);
+
+  Object.entries(cells).forEach(([key, cell]) => {
+    const hole = Number(key);
+    if (hole >= holes.length) return;
+    holes[hole] = cell.pickedUp ? 0 : cell.score;
+    if (cell.pickedUp) {
+      pickedUp.add(hole);
+    } else {
+      pickedUp.delete(hole);
+    }
+  });
+
+  return { holes, pickedUp: Array.from(pickedUp).sort((a, b) => a - b) };
+};
+
+// Every player's card as it stands: the last autosave plus anything entered live since
+export const getLiveRoundScores = (round: Round): Pick<RoundScore, 'uid' | 'holes' | 'pickedUp'>[] =>
+  round.players.map(uid => {
+    const saved = round.scores.find(score => score.uid === uid);
+    const holes = Array.from({ length: round.holeCount }, (_, i) => saved?.holes[i] || 0);
+    return { uid, ...applyLiveScores({ holes, pickedUp: saved?.pickedUp }, round.liveScores?.[uid]) };
+  });
+
+// Holes this user entered that someone else has since changed, keyed by
+// getCellKey, so the loser of a same-hole collision can see what happened
+export const getOverwrittenCells = (previous: LiveScores, next: LiveScores, uid: string) => {
+  const overwritten: { [key: string]: string } = {};
+
+  Object.entries(next).forEach(([player, cells]) => {
+    Object.entries(cells).forEach(([hole, cell]) => {
+      const before = previous[player]?.[hole];
+      const changed = cell.score !== before?.score || cell.pickedUp !== before?.pickedUp;
+      if (before?.by === uid && cell.by !== uid && changed) {
+        overwritten[getCellKey(player, Number(hole))] = cell.by;
+      }
+    });
+  });
+
+  return overwritten;
+};
+
+// Whether any hole was entered or changed since `seen`, e.g. while a round was being finished
+export const hasUnseenLiveScores = (seen: LiveScores, current: LiveScores) =>
+  Object.entries(current).some(([player, cells]) =>
+    Object.entries(cells).some(([hole, cell]) => {
+      const before = seen[player]?.[hole];
+      return cell.at !== before?.at || cell.by !== before?.by || cell.score !== before?.score || cell.pickedUp !== before?.pickedUp;
+    })
+  );
+
+export interface LeaderboardEntry extends RankedEntry {
+  uid: string;
+  thru: number;
+  total: number; // To par over the holes played, net of strokes on net rounds
+}
+
+// Positions by score to par so far, so players on different holes compare
+// fairly. Pickups count as played but not towards to-par; anyone yet to
+// start goes last.
+export const getLiveLeaderboard = (round: Round): LeaderboardEntry[] => {
+  const pars = getHolePars(round);
+  const entries = getLiveRoundScores(round).map(card => {
+    const strokes = round.scoringMode === 'net' ? round.scores.find(score => score.uid === card.uid)?.strokes || [] : [];
+    const received = card.holes.reduce((sum, score, i) => sum + (score ? strokes[i] || 0 : 0), 0);
+    return { uid: card.uid, thru: getHolesThru(card), total: getToPar(card.holes, pars) - received };
+  });
+
+  const started = entries.filter(entry => entry.thru > 0);
+  const waiting = entries
+    .filter(entry => entry.thru === 0)
+    .map(entry => ({ ...entry, position: started.length + 1 }));
+  return [...rankTotals(started, true), ...waiting];
+};
@@ -0,0 +1,104 @@
+import {
+  buildMatchResult,
+  formatMatchStatus,
+  formatRunningLead,
+  getLeadColor,
+  getMatchHoles,
+  getMatchLeader,
+  getMatchState,
+  getMatchStrokes,
+  getRunningLeads,
+  getSideScore
+} from './matchPlay';
+
+const INDEXES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+describe('getMatchStrokes', () => {
+  it('gives strokes off the lowest handicap in the group', () => {
+    const strokes = getMatchStrokes({ a: 10, b: 12 }, INDEXES);
+
+    expect(strokes.a).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(strokes.b).toEqual([1, 1, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('getSideScore', () => {
+  it('takes the best ball that has been scored', () => {
+    expect(getSideScore(['a', 'b'], { a: [0], b: [5] }, 0)).toBe(5);
+    expect(getSideScore(['a', 'b'], { a: [4], b: [5] }, 0)).toBe(4);
+    expect(getSideScore(['a', 'b'], { a: [0], b: [0] }, 0)).toBe(0);
+  });
+});
+
+describe('getMatchHoles', () => {
+  it('stops at the first hole a side has not scored', () => {
+    expect(getMatchHoles(['a'], ['b'], { a: [4, 5, 4], b: [4, 4, 0] }, 9)).toEqual(['halved', 'B']);
+  });
+
+  it('stops once the match is decided', () => {
+    expect(getMatchHoles(['a'], ['b'], { a: [3, 3, 3], b: [4, 4, 4] }, 3)).toEqual(['A', 'A']);
+  });
+
+  it('ends a dormie match once the next hole is halved', () => {
+    expect(getMatchHoles(['a'], ['b'], { a: [3, 3, 4, 4], b: [4, 4, 4, 3] }, 4)).toEqual(['A', 'A', 'halved']);
+  });
+
+  it('plays best ball for two-player sides', () => {
+    const scores = { a: [5, 5], b: [3, 6], c: [4, 4], d: [4, 4] };
+    expect(getMatchHoles(['a', 'b'], ['c', 'd'], scores, 18)).toEqual(['A', 'B']);
+  });
+});
+
+describe('getRunningLeads', () => {
+  it('tracks side A lead after each hole', () => {
+    const leads = getRunningLeads(['A', 'halved', 'B', 'B']);
+
+    expect(leads).toEqual([1, 1, 0, -1]);
+    expect(leads.map(formatRunningLead)).toEqual(['A 1 UP', 'A 1 UP', 'AS', 'B 1 UP']);
+  });
+});
+
+describe('getMatchState', () => {
+  it('keeps a dormie match going', () => {
+    const state = getMatchState(['A', 'A'], 4);
+
+    expect(state).toEqual({ lead: 2, thru: 2, remaining: 2, decided: false });
+    expect(formatMatchStatus(state)).toBe('2 UP thru 2');
+  });
+
+  it('names the side in front', () => {
+    expect(getMatchLeader(getMatchState(['B'], 18))).toBe('B');
+    expect(getMatchLeader(getMatchState(['A', 'B'], 18))).toBeNull();
+    expect([1, 0, -1].map(getLeadColor)).toEqual(['text-blue-600', 'text-gray-500', 'text-red-600']);
+  });
+});
+
+describe('formatMatchStatus', () => {
+  it('describes a match in progress', () => {
+    expect(formatMatchStatus(getMatchState([], 18))).toBe('All Square');
+    expect(formatMatchStatus(getMatchState(['A', 'B'], 18))).toBe('All Square thru 2');
+    expect(formatMatchStatus(getMatchState(['A', 'A', 'halved'], 18))).toBe('2 UP thru 3');
+  });
+
+  it('describes a finished match', () => {
+    expect(formatMatchStatus(getMatchState(['A', 'A', 'A'], 4))).toBe('3&1');
+    expect(formatMatchStatus(getMatchState(['A', 'B', 'B'], 3))).toBe('1 UP');
+    expect(formatMatchStatus(getMatchState(['A', 'B', 'halved'], 3))).toBe('Halved');
+  });
+});
+
+describe('buildMatchResult', () => {
+  it('names the winning side', () => {
+    expect(buildMatchResult(['a'], ['b'], ['B', 'B'], 3)).toEqual({
+      sideA: ['a'],
+      sideB: ['b'],
+      holes: ['B', 'B'],
+      winners: ['b'],
+      result: '2&1'
+    });
+  });
+
+  it('has no winners for a halved match', () => {
+    expect(buildMatchResult(['a'], ['b'], ['A', 'B'], 2).winners).toEqual([]);
+  });
+});
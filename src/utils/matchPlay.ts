@@ -0,0 +1,121 @@
+import type { MatchHoleResult, MatchResult } from './firebase';
+import { allocateStrokes } from './handicap';
+
+export type MatchSide = 'A' | 'B';
+
+export interface MatchState {
+  lead: number; // Holes side A is up; negative when side B leads
+  thru: number;
+  remaining: number;
+  decided: boolean;
+}
+
+// In a handicap match everyone plays off the lowest course handicap in the group
+export const getMatchStrokes = (
+  courseHandicaps: { [uid: string]: number },
+  holeIndexes: number[]
+): { [uid: string]: number[] } => {
+  const low = Math.min(...Object.values(courseHandicaps));
+  const strokes: { [uid: string]: number[] } = {};
+  Object.entries(courseHandicaps).forEach(([uid, courseHandicap]) => {
+    strokes[uid] = allocateStrokes(courseHandicap - low, holeIndexes);
+  });
+  return strokes;
+};
+
+// A side's best ball on a hole, or 0 until someone on the side has a score
+export const getSideScore = (side: string[], netScores: { [uid: string]: number[] }, hole: number) => {
+  const played = side.map(uid => netScores[uid]?.[hole] || 0).filter(score => score > 0);
+  return played.length > 0 ? Math.min(...played) : 0;
+};
+
+const getLeadChange = (result: MatchHoleResult) => (result === 'A' ? 1 : result === 'B' ? -1 : 0);
+
+// Hole results in order, stopping at the first hole a side hasn't scored yet
+// and as soon as one side is more holes up than there are holes left
+export const getMatchHoles = (
+  sideA: string[],
+  sideB: string[],
+  netScores: { [uid: string]: number[] },
+  holeCount: number
+): MatchHoleResult[] => {
+  const holes: MatchHoleResult[] = [];
+  let lead = 0;
+
+  for (let hole = 0; hole < holeCount; hole++) {
+    const a = getSideScore(sideA, netScores, hole);
+    const b = getSideScore(sideB, netScores, hole);
+    if (!a || !b) {
+      break;
+    }
+
+    const result: MatchHoleResult = a < b ? 'A' : b < a ? 'B' : 'halved';
+    holes.push(result);
+    lead += getLeadChange(result);
+
+    if (Math.abs(lead) > holeCount - holes.length) {
+      break;
+    }
+  }
+
+  return holes;
+};
+
+// Side A's lead after each hole played
+export const getRunningLeads = (holes: MatchHoleResult[]): number[] => {
+  let lead = 0;
+  return holes.map(result => (lead += getLeadChange(result)));
+};
+
+// Compact per-hole status for scorecards, e.g. "A 2 UP" or "AS"
+export const formatRunningLead = (lead: number) =>
+  lead === 0 ? 'AS' : `${lead > 0 ? 'A' : 'B'} ${Math.abs(lead)} UP`;
+
+export const getLeadColor = (lead: number) =>
+  lead > 0 ? 'text-blue-600' : lead < 0 ? 'text-red-600' : 'text-gray-500';
+
+export const getMatchState = (holes: MatchHoleResult[], holeCount: number): MatchState => {
+  const lead = holes.reduce((sum, result) => sum + getLeadChange(result), 0);
+  const remaining = holeCount - holes.length;
+
+  return {
+    lead,
+    thru: holes.length,
+    remaining,
+    decided: remaining === 0 || Math.abs(lead) > remaining
+  };
+};
+
+export const getMatchLeader = (state: MatchState): MatchSide | null =>
+  state.lead > 0 ? 'A' : state.lead < 0 ? 'B' : null;
+
+// "2 UP thru 7" while playing; "3&2", "1 UP" or "Halved" once decided
+export const formatMatchStatus = (state: MatchState): string => {
+  const up = Math.abs(state.lead);
+
+  if (state.decided) {
+    if (up === 0) return 'Halved';
+    return state.remaining > 0 ? `${up}&${state.remaining}` : `${up} UP`;
+  }
+
+  if (state.thru === 0) return 'All Square';
+  return up === 0 ? `All Square thru ${state.thru}` : `${up} UP thru ${state.thru}`;
+};
+
+export const buildMatchResult = (
+  sideA: string[],
+  sideB: string[],
+  holes: MatchHoleResult[],
+  holeCount: number
+): MatchResult => {
+  const state = getMatchState(holes, holeCount);
+  const leader = getMatchLeader(state);
+
+  return {
+    sideA,
+    sideB,
+    holes,
+    winners: leader === 'A' ? sideA : leader === 'B' ? sideB : [],
+    result: formatMatchStatus(state)
+  };
+};
@@ -0,0 +1,15 @@
+// A stake without a sign, e.g. "$5" or "$2.50"
+export const formatStake = (amount: number) => {
+  const rounded = Math.abs(Math.round(amount * 100) / 100);
+  return `$${Number.isInteger(rounded) ? rounded : rounded.toFixed(2)}`;
+};
+
+// Settlement amounts, e.g. "+$12", "-$4.50" or "$0"
+export const formatMoney = (amount: number) => {
+  const rounded = Math.round(amount * 100) / 100;
+  if (rounded === 0) return '$0';
+  return `${rounded > 0 ? '+' : '-'}${formatStake(rounded)}`;
+};
+
+export const getMoneyColor = (amount: number) =>
+  amount > 0 ? 'text-green-600' : amount < 0 ? 'text-red-600' : 'text-gray-500';
@@ -0,0 +1,88 @@
+import type { NassauBet } from './firebase';
+import { calculateNassau, formatBetMargin, getBetAmount, NassauOptions } from './nassau';
+import { fours } from '../test/fixtures';
+
+const OPTIONS: NassauOptions = { stake: 5, scoring: 'match', mode: 'gross', presses: 'none' };
+
+describe('calculateNassau', () => {
+  it('settles the front, back and overall bets', () => {
+    const scores = { a: [3, ...fours(17)], b: [...fours(9), 3, 3, ...fours(7)] };
+    const result = calculateNassau(['a'], ['b'], scores, OPTIONS);
+
+    expect(result.bets.map(bet => [bet.name, bet.lead, bet.winningSide])).toEqual([
+      ['Front 9', 1, 'A'],
+      ['Back 9', -2, 'B'],
+      ['Overall', -1, 'B']
+    ]);
+    expect(result.settlement).toEqual([
+      { uid: 'a', amount: -5 },
+      { uid: 'b', amount: 5 }
+    ]);
+  });
+
+  it('leaves bets open until their last hole is played', () => {
+    const result = calculateNassau(['a'], ['b'], { a: [3, ...fours(8)], b: fours(9) }, OPTIONS);
+
+    expect(result.bets.map(bet => [bet.name, bet.complete, bet.winningSide])).toEqual([
+      ['Front 9', true, 'A'],
+      ['Back 9', false, null],
+      ['Overall', false, null]
+    ]);
+    expect(result.settlement.map(entry => entry.amount)).toEqual([5, -5]);
+  });
+
+  it('plays best ball between pairs and pays every player', () => {
+    const scores = { a: [5, ...fours(8)], b: [3, ...fours(8)], c: fours(9), d: fours(9) };
+    const result = calculateNassau(['a', 'b'], ['c', 'd'], scores, OPTIONS);
+
+    expect(result.bets[0].winningSide).toBe('A');
+    expect(result.settlement.map(entry => entry.amount)).toEqual([5, 5, -5, -5]);
+  });
+
+  it('opens an automatic press when a bet goes two down', () => {
+    const result = calculateNassau(['a'], ['b'], { a: [5, 5, ...fours(7)], b: fours(9) }, { ...OPTIONS, presses: 'auto' });
+
+    expect(result.bets.map(bet => [bet.name, bet.lead, bet.complete])).toEqual([
+      ['Front 9', -2, true],
+      ['Front press from 3', 0, true],
+      ['Back 9', 0, false],
+      ['Overall', -2, false]
+    ]);
+    expect(formatBetMargin(result.bets[1], 'match')).toBe('Push');
+  });
+
+  it('opens manual presses on the nine they fall in', () => {
+    const result = calculateNassau(['a'], ['b'], {}, { ...OPTIONS, presses: 'manual' }, [12, 0, 4]);
+
+    expect(result.bets.map(bet => bet.name)).toEqual([
+      'Front 9',
+      'Front press from 5',
+      'Back 9',
+      'Back press from 13',
+      'Overall'
+    ]);
+  });
+
+  it('counts strokes in stroke play', () => {
+    const result = calculateNassau(['a'], ['b'], { a: [3, 4], b: [5, 5] }, { ...OPTIONS, scoring: 'stroke' });
+
+    expect(result.bets[0].lead).toBe(3);
+    expect(formatBetMargin(result.bets[0], 'stroke')).toBe('3 strokes');
+  });
+});
+
+describe('settling a bet', () => {
+  const bet: NassauBet = { name: 'Front 9', startHole: 0, endHole: 9, lead: 2, complete: true, winningSide: 'A' };
+
+  it('pays the stake to the winning side', () => {
+    expect(getBetAmount(bet, 5)).toBe(5);
+    expect(getBetAmount({ ...bet, lead: -2, winningSide: 'B' }, 5)).toBe(-5);
+    expect(getBetAmount({ ...bet, lead: 0, winningSide: null }, 5)).toBe(0);
+  });
+
+  it('describes the margin for each scoring', () => {
+    expect(formatBetMargin(bet, 'match')).toBe('2 UP');
+    expect(formatBetMargin({ ...bet, lead: -1 }, 'stroke')).toBe('1 stroke');
+    expect(formatBetMargin({ ...bet, lead: 0, complete: false }, 'match')).toBe('All square');
+  });
+});
@@ -0,0 +1,125 @@
+import type { NassauBet, NassauResult, NassauScoring, PressMode, ScoringMode } from './firebase';
+import { getSideScore } from './matchPlay';
+
+export interface NassauOptions {
+  stake: number;
+  scoring: NassauScoring;
+  mode: ScoringMode;
+  presses: PressMode;
+}
+
+export const DEFAULT_NASSAU_OPTIONS: NassauOptions = {
+  stake: 5,
+  scoring: 'match',
+  mode: 'gross',
+  presses: 'none'
+};
+
+// Automatic presses start when a side falls this far behind in a bet
+export const PRESS_TRIGGER = 2;
+
+const NINE = 9;
+
+// What side A gains on a hole: one hole in match play, the stroke difference in stroke play
+const getHoleSwing = (a: number, b: number, scoring: NassauScoring) =>
+  scoring === 'match' ? Math.sign(b - a) : b - a;
+
+const sumSwings = (swings: number[], start: number, end: number) =>
+  swings.slice(start, end).reduce((sum, swing) => sum + swing, 0);
+
+// Where presses start on a nine. Manual presses are whatever holes the players
+// picked; automatic ones open the hole after any bet on the nine goes 2 down.
+const getPressStarts = (
+  swings: number[],
+  start: number,
+  end: number,
+  presses: PressMode,
+  manualPresses: number[]
+): number[] => {
+  if (presses === 'manual') {
+    return manualPresses.filter(hole => hole > start && hole < end).sort((a, b) => a - b);
+  }
+  if (presses !== 'auto') {
+    return [];
+  }
+
+  const starts = [start];
+  const pressed = new Set<number>();
+  for (let hole = start; hole < Math.min(end - 1, swings.length); hole++) {
+    [...starts].forEach(betStart => {
+      if (!pressed.has(betStart) && Math.abs(sumSwings(swings, betStart, hole + 1)) >= PRESS_TRIGGER) {
+        pressed.add(betStart);
+        starts.push(hole + 1);
+      }
+    });
+  }
+
+  return starts.slice(1);
+};
+
+// What each player on side A wins (or loses, if negative) on one bet
+export const getBetAmount = (bet: NassauBet, stake: number) =>
+  bet.winningSide === 'A' ? stake : bet.winningSide === 'B' ? -stake : 0;
+
+// Front nine, back nine and overall between two sides (best ball for pairs),
+// plus any presses. `scores` are the gross or net hole scores to compare.
+export const calculateNassau = (
+  sideA: string[],
+  sideB: string[],
+  scores: { [uid: string]: number[] },
+  options: NassauOptions,
+  manualPresses: number[] = []
+): NassauResult => {
+  // Scoring stops at the first hole either side hasn't finished
+  const swings: number[] = [];
+  for (let hole = 0; hole < NINE * 2; hole++) {
+    const a = getSideScore(sideA, scores, hole);
+    const b = getSideScore(sideB, scores, hole);
+    if (!a || !b) {
+      break;
+    }
+    swings.push(getHoleSwing(a, b, options.scoring));
+  }
+
+  const playBet = (name: string, startHole: number, endHole: number): NassauBet => {
+    const lead = sumSwings(swings, startHole, endHole);
+    const complete = swings.length >= endHole;
+    return {
+      name,
+      startHole,
+      endHole,
+      lead,
+      complete,
+      winningSide: complete && lead !== 0 ? (lead > 0 ? 'A' : 'B') : null
+    };
+  };
+
+  const playNine = (label: string, start: number): NassauBet[] => [
+    playBet(`${label} 9`, start, start + NINE),
+    ...getPressStarts(swings, start, start + NINE, options.presses, manualPresses)
+      .map(hole => playBet(`${label} press from ${hole + 1}`, hole, start + NINE))
+  ];
+
+  const bets = [...playNine('Front', 0), ...playNine('Back', NINE), playBet('Overall', 0, NINE * 2)];
+  const sideAWinnings = bets.reduce((sum, bet) => sum + getBetAmount(bet, options.stake), 0);
+
+  return {
+    sideA,
+    sideB,
+    ...options,
+    bets,
+    settlement: [
+      ...sideA.map(uid => ({ uid, amount: sideAWinnings })),
+      ...sideB.map(uid => ({ uid, amount: -sideAWinnings }))
+    ]
+  };
+};
+
+// e.g. "2 UP", "3 strokes" or "Push"
+export const formatBetMargin = (bet: NassauBet, scoring: NassauScoring) => {
+  const margin = Math.abs(bet.lead);
+  if (margin === 0) {
+    return bet.complete ? 'Push' : 'All square';
+  }
+  return scoring === 'match' ? `${margin} UP` : `${margin} stroke${margin !== 1 ? 's' : ''}`;
+};
@@ -0,0 +1,78 @@
+import type { PointEventRecord } from './firebase';
+import { calculatePointGames, describePlayerEvents, getEnabledEvents, hasEvent, togglePointEvent } from './pointGames';
+
+const EVENTS: PointEventRecord[] = [
+  { hole: 0, uid: 'a', event: 'bingo' },
+  { hole: 0, uid: 'a', event: 'bango' },
+  { hole: 0, uid: 'b', event: 'bongo' },
+  { hole: 1, uid: 'b', event: 'greenie' }
+];
+
+describe('calculatePointGames', () => {
+  it('pays each point from every other player', () => {
+    const result = calculatePointGames(['a', 'b', 'c'], EVENTS, { bingoBangoBongo: true, dots: true, value: 1 }, 18);
+
+    expect(result.totals).toEqual([
+      { uid: 'a', points: 2, amount: 2 },
+      { uid: 'b', points: 2, amount: 2 },
+      { uid: 'c', points: 0, amount: -4 }
+    ]);
+  });
+
+  it('only counts games being played', () => {
+    const result = calculatePointGames(['a', 'b'], EVENTS, { bingoBangoBongo: false, dots: true, value: 1 }, 18);
+
+    expect(result.events).toEqual([{ hole: 1, uid: 'b', event: 'greenie' }]);
+    expect(result.totals.map(total => total.points)).toEqual([0, 1]);
+  });
+
+  it('ignores players and holes outside the round', () => {
+    const result = calculatePointGames(['a'], EVENTS, { bingoBangoBongo: true, dots: true, value: 1 }, 1);
+
+    expect(result.events).toHaveLength(2);
+    expect(result.totals).toEqual([{ uid: 'a', points: 2, amount: 0 }]);
+  });
+});
+
+describe('getEnabledEvents', () => {
+  it('lists the events for each game', () => {
+    expect(getEnabledEvents({ bingoBangoBongo: true, dots: false })).toEqual(['bingo', 'bango', 'bongo']);
+    expect(getEnabledEvents({ bingoBangoBongo: false, dots: false })).toEqual([]);
+  });
+});
+
+describe('togglePointEvent', () => {
+  it('takes an exclusive event away from whoever had it on the hole', () => {
+    expect(togglePointEvent(EVENTS, 0, 'b', 'bingo')).toEqual([
+      { hole: 0, uid: 'a', event: 'bango' },
+      { hole: 0, uid: 'b', event: 'bongo' },
+      { hole: 1, uid: 'b', event: 'greenie' },
+      { hole: 0, uid: 'b', event: 'bingo' }
+    ]);
+  });
+
+  it('lets several players share a dot', () => {
+    expect(togglePointEvent(EVENTS, 1, 'a', 'greenie')).toHaveLength(5);
+  });
+
+  it('removes an event that is toggled again', () => {
+    expect(togglePointEvent(EVENTS, 0, 'a', 'bingo')).not.toContainEqual({ hole: 0, uid: 'a', event: 'bingo' });
+  });
+});
+
+describe('describePlayerEvents', () => {
+  it('counts each event a player won', () => {
+    const events = [...EVENTS, { hole: 1, uid: 'a', event: 'bingo' as const }];
+
+    expect(describePlayerEvents(events, 'a')).toBe('2 Bingo, 1 Bango');
+    expect(describePlayerEvents(events, 'c')).toBe('');
+  });
+});
+
+describe('hasEvent', () => {
+  it('matches the hole, player and event', () => {
+    expect(hasEvent(EVENTS, 1, 'b', 'greenie')).toBe(true);
+    expect(hasEvent(EVENTS, 0, 'b', 'greenie')).toBe(false);
+    expect(hasEvent(EVENTS, 1, 'a', 'greenie')).toBe(false);
+  });
+});
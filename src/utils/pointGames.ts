@@ -0,0 +1,89 @@
+import type { PointEvent, PointEventRecord, PointGamesResult } from './firebase';
+
+export interface PointEventInfo {
+  label: string;
+  short: string;
+  description: string;
+  // Only one player can win a Bingo, Bango or Bongo on a hole
+  exclusive: boolean;
+}
+
+export const BINGO_BANGO_BONGO: PointEvent[] = ['bingo', 'bango', 'bongo'];
+export const DOTS: PointEvent[] = ['sandy', 'greenie', 'barkie', 'polie'];
+
+export const POINT_EVENTS: { [event in PointEvent]: PointEventInfo } = {
+  bingo: { label: 'Bingo', short: 'Bi', description: 'First on the green', exclusive: true },
+  bango: { label: 'Bango', short: 'Ba', description: 'Closest to the pin once everyone is on', exclusive: true },
+  bongo: { label: 'Bongo', short: 'Bo', description: 'First in the hole', exclusive: true },
+  sandy: { label: 'Sandy', short: 'S', description: 'Par or better after being in a bunker', exclusive: false },
+  greenie: { label: 'Greenie', short: 'G', description: 'On a par 3 in one and made par or better', exclusive: false },
+  barkie: { label: 'Barkie', short: 'Bk', description: 'Par or better after hitting a tree', exclusive: false },
+  polie: { label: 'Polie', short: 'P', description: 'Holed a putt longer than the flagstick', exclusive: false }
+};
+
+export interface PointGamesOptions {
+  bingoBangoBongo: boolean;
+  dots: boolean;
+  value: number;
+}
+
+export const DEFAULT_POINT_GAMES_OPTIONS: PointGamesOptions = {
+  bingoBangoBongo: true,
+  dots: false,
+  value: 0
+};
+
+export const getEnabledEvents = (options: Pick<PointGamesOptions, 'bingoBangoBongo' | 'dots'>): PointEvent[] => [
+  ...(options.bingoBangoBongo ? BINGO_BANGO_BONGO : []),
+  ...(options.dots ? DOTS : [])
+];
+
+export const hasEvent = (events: PointEventRecord[], hole: number, uid: string, event: PointEvent) =>
+  events.some(e => e.hole === hole && e.uid === uid && e.event === event);
+
+// Adds or removes an event. Claiming an exclusive one takes it away from whoever had it on that hole.
+export const togglePointEvent = (
+  events: PointEventRecord[],
+  hole: number,
+  uid: string,
+  event: PointEvent
+): PointEventRecord[] => {
+  if (hasEvent(events, hole, uid, event)) {
+    return events.filter(e => !(e.hole === hole && e.uid === uid && e.event === event));
+  }
+
+  const others = POINT_EVENTS[event].exclusive
+    ? events.filter(e => !(e.hole === hole && e.event === event))
+    : events;
+  return [...others, { hole, uid, event }];
+};
+
+// Every point is paid by each other player, so the amounts sum to zero
+export const calculatePointGames = (
+  players: string[],
+  events: PointEventRecord[],
+  options: PointGamesOptions,
+  holeCount: number
+): PointGamesResult => {
+  const enabled = getEnabledEvents(options);
+  const counted = events.filter(e => enabled.includes(e.event) && players.includes(e.uid) && e.hole < holeCount);
+  const points = (uid: string) => counted.filter(e => e.uid === uid).length;
+
+  return {
+    ...options,
+    events: counted,
+    totals: players.map(uid => ({
+      uid,
+      points: points(uid),
+      amount: options.value * (players.length * points(uid) - counted.length)
+    }))
+  };
+};
+
+// e.g. "2 Bingo, 1 Greenie"
+export const describePlayerEvents = (events: PointEventRecord[], uid: string) =>
+  (Object.keys(POINT_EVENTS) as PointEvent[])
+    .map(event => ({ event, count: events.filter(e => e.uid === uid && e.event === event).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ event, count }) => `${count} ${POINT_EVENTS[event].label}`)
+    .join(', ');
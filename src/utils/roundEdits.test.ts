@@ -0,0 +1,120 @@
+import type { Course, Round } from './firebase';
+import { calculateNassau } from './nassau';
+import { applyCorrection, getRoundChanges, RoundCorrection } from './roundEdits';
+import { calculateSkins } from './skins';
+import { fours, makeRound } from '../test/fixtures';
+
+const COURSE = { id: 'course', name: 'Pine Valley', par: 36, holes: 9 } as Course;
+
+// A finished round on a saved course snapshot, as rounds are saved today
+const makeSavedRound = (overrides: Partial<Round>): Round =>
+  makeRound({ status: 'completed', course: COURSE, players: ['a', 'b'], ...overrides });
+
+const noIndex = () => null;
+
+// The round as saved, moved to another day
+const moveDate = (round: Round): RoundCorrection => ({
+  date: '2024-05-02',
+  course: COURSE,
+  players: round.players,
+  scores: Object.fromEntries(round.scores.map(score => [score.uid, score.holes])),
+  pickedUp: {},
+  teamScores: {}
+});
+
+describe('applyCorrection', () => {
+  it('re-scores a corrected stroke play round', () => {
+    const round = makeSavedRound({
+      scores: [{ uid: 'a', holes: fours(9) }, { uid: 'b', holes: [5, ...fours(8)] }],
+      winners: ['a'],
+      winner: 'a'
+    });
+    const next = applyCorrection(round, {
+      date: round.date,
+      course: COURSE,
+      players: round.players,
+      scores: { a: [6, ...fours(8)], b: [5, ...fours(8)] },
+      pickedUp: {},
+      teamScores: {}
+    }, noIndex);
+
+    expect(next.winners).toEqual(['b']);
+    expect(next.scores[0].gross).toBe(38);
+    expect(getRoundChanges(round, next)).toEqual([{ field: 'score', uid: 'a', hole: 0, before: '4', after: '6' }]);
+  });
+
+  it('re-scores a scramble from corrected team cards and its saved team handicaps', () => {
+    const round = makeSavedRound({
+      format: 'scramble',
+      scoringMode: 'net',
+      players: ['a', 'b', 'c', 'd'],
+      teams: [
+        { id: 't1', name: 'Team 1', players: ['a', 'b'], holes: fours(9), gross: 36, net: 34, handicap: 2 },
+        { id: 't2', name: 'Team 2', players: ['c', 'd'], holes: [3, ...fours(8)], gross: 35, net: 35, handicap: 0 }
+      ],
+      winningTeams: ['t2'],
+      winningTeam: 't2',
+      teamHandicapPercents: [35, 15]
+    });
+    const next = applyCorrection(round, {
+      date: round.date,
+      course: COURSE,
+      players: round.players,
+      scores: {},
+      pickedUp: {},
+      teamScores: { t1: [3, ...fours(8)], t2: [3, ...fours(8)] }
+    }, noIndex);
+
+    expect(next.teams?.map(team => [team.gross, team.net, team.handicap])).toEqual([
+      [35, 33, 2],
+      [35, 35, 0]
+    ]);
+    expect(next.winningTeams).toEqual(['t1']);
+    expect(getRoundChanges(round, next)).toEqual([{ field: 'score', teamId: 't1', hole: 0, before: '4', after: '3' }]);
+  });
+});
+
+describe('applyCorrection with match play and side games', () => {
+  it('keeps a match result through a date-only edit', () => {
+    const round = makeSavedRound({
+      format: 'match',
+      scores: [{ uid: 'a', holes: [3, 3, 3, 3, 3, 4, 4, 4, 4] }, { uid: 'b', holes: fours(9) }],
+      match: { sideA: ['a'], sideB: ['b'], holes: ['A', 'A', 'A', 'A', 'A'], winners: ['a'], result: '5&4' },
+      winners: ['a'],
+      winner: 'a'
+    });
+    const next = applyCorrection(round, moveDate(round), noIndex);
+
+    expect(next.match).toEqual(round.match);
+    expect(next.winners).toEqual(['a']);
+    expect(next.winner).toBe('a');
+    expect(getRoundChanges(round, next)).toEqual([{ field: 'date', before: '2024-05-01', after: '2024-05-02' }]);
+  });
+
+  describe('with skins and a Nassau', () => {
+    const scores = { a: [3, ...fours(8)], b: fours(9) };
+    const round = makeSavedRound({
+      scores: [{ uid: 'a', holes: scores.a }, { uid: 'b', holes: scores.b }],
+      winners: ['a'],
+      winner: 'a',
+      skins: calculateSkins(['a', 'b'], scores, 9, { mode: 'gross', carryovers: true, validation: false, value: 2 }),
+      nassau: calculateNassau(['a'], ['b'], scores, { stake: 5, scoring: 'match', mode: 'gross', presses: 'none' })
+    });
+
+    it('keeps the settlements through a date-only edit', () => {
+      const next = applyCorrection(round, moveDate(round), noIndex);
+
+      expect(next.skins).toEqual(round.skins);
+      expect(next.nassau).toEqual(round.nassau);
+      expect(next.nassau?.settlement).toEqual([{ uid: 'a', amount: 5 }, { uid: 'b', amount: -5 }]);
+    });
+
+    it('settles them again from corrected scores', () => {
+      const next = applyCorrection(round, { ...moveDate(round), scores: { ...scores, b: [4, 3, ...fours(7)] } }, noIndex);
+
+      expect(next.skins?.totals.map(total => total.skins)).toEqual([1, 1]);
+      expect(next.nassau?.bets[0]).toMatchObject({ lead: 0, complete: true, winningSide: null });
+      expect(next.nassau?.settlement.every(entry => entry.amount === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import type { Course, Round, RoundChange, RoundScore, RoundTee } from './firebase';
+import { getFormat, getRoundScoringInput, getRoundSideGames, scoreRound, scoreSideGames } from './formats';
+import { getNetScoreFields, getRoundTee } from './handicap';
+import { buildMatchResult } from './matchPlay';
+import { getCourseTees, getHoleIndexes, getHolePars, toRoundTee } from './scorecard';
+
+// Correcting a saved round: what can be changed, re-scoring it afterwards, and
+// the before/after record kept of every edit
+
+export interface RoundCorrection {
+  date: string;
+  course: Course;
+  players: string[];
+  scores: { [uid: string]: number[] };
+  pickedUp: { [uid: string]: number[] };
+  teamScores: { [teamId: string]: number[] }; // Scrambles, which have no individual scores
+}
+
+export const canEditRound = (round: Round, uid: string) =>
+  round.players.includes(uid) || round.createdBy === uid;
+
+// Sides, teams and the Wolf rotation are built around the original players
+export const canChangePlayers = (round: Round) =>
+  !round.match && !round.nassau && !round.wolf && !round.teams;
+
+// "5", "X" for a pickup, or "" for no score
+export const formatHoleScore = (score: Pick<RoundScore, 'holes' | 'pickedUp'> | undefined, hole: number) => {
+  if (!score) return '';
+  if ((score.pickedUp || []).includes(hole)) return 'X';
+  return score.holes[hole] ? `${score.holes[hole]}` : '';
+};
+
+// Keeps a player's tee by name on the new course, or its first tee
+const getCourseRoundTee = (course: Course, tee?: RoundTee): RoundTee | undefined => {
+  const tees = getCourseTees(course);
+  const match = tees.find(option => option.name === tee?.name) || tees[0];
+  return match ? toRoundTee(match, course.par || 72) : undefined;
+};
+
+// Everything derived from the scores worked out again: net totals and strokes,
+// Stableford points, the winner and any side games, all from the options the
+// round was played with
+export const rescoreRound = (round: Round): Round => {
+  const holeCount = round.holeCount;
+  const course = typeof round.course === 'string' ? null : round.course;
+  const pars = getHolePars(round, holeCount);
+  const holeIndexes = getHoleIndexes(round, holeCount);
+
+  const scores = round.scores.map(score => {
+    const { points, totalPoints, ...rest } = score;
+    return {
+      ...rest,
+      ...getNetScoreFields(
+        score.holes,
+        score.handicapIndex ?? null,
+        getRoundTee(round, score.uid),
+        holeIndexes,
+        pars,
+        score.pickedUp || [],
+        course?.holes || 18
+      )
+    };
+  });
+
+  const {
+    winner, winners: _winners, winningTeam, winningTeams: _winningTeams, tied, decidedBy,
+    match: savedMatch, skins, nassau, wolf, pointGames,
+    ...base
+  } = round;
+  const rescored: Round = { ...base, scores };
+  // The match result is rebuilt below, but its sides are needed to score it
+  const input = getRoundScoringInput({ ...rescored, match: savedMatch });
+  const result = scoreRound(round.format, input);
+  const sideGames = scoreSideGames(input, getRoundSideGames(round));
+  const getStanding = (id: string) => result.standings.find(standing => standing.id === id);
+
+  const isTeamFormat = getFormat(round.format).participants === 'teams';
+  const match = savedMatch
+    ? buildMatchResult(savedMatch.sideA, savedMatch.sideB, result.matchHoles || [], holeCount)
+    : null;
+  const winners = match ? match.winners : isTeamFormat ? [] : result.winners;
+  const winningTeams = isTeamFormat ? result.winners : [];
+
+  return {
+    ...rescored,
+    scores: round.format === 'stableford'
+      ? scores.map(score => ({ ...score, points: getStanding(score.uid)!.holes, totalPoints: getStanding(score.uid)!.total }))
+      : scores,
+    ...(isTeamFormat && round.teams
+      ? {
+          teams: round.teams.map(team => {
+            const { grossHoles, gross, net, handicap } = getStanding(team.id)!;
+            return { ...team, holes: grossHoles, gross, net, handicap };
+          })
+        }
+      : {}),
+    ...(match ? { match } : {}),
+    ...(sideGames.skins ? { skins: sideGames.skins } : {}),
+    ...(sideGames.nassau ? { nassau: sideGames.nassau } : {}),
+    ...(sideGames.wolf ? { wolf: sideGames.wolf } : {}),
+    ...(sideGames.pointGames ? { pointGames: sideGames.pointGames } : {}),
+    ...(winners.length > 0 ? { winners } : {}),
+    ...(winners.length > 0 && (match || !result.tied) ? { winner: winners[0] } : {}),
+    ...(winningTeams.length > 0 ? { winningTeams } : {}),
+    ...(winningTeams.length === 1 ? { winningTeam: winningTeams[0] } : {}),
+    ...(!match && result.tied ? { tied: true } : {}),
+    ...(result.decidedBy ? { decidedBy: result.decidedBy } : {})
+  };
+};
+
+// The corrected round, re-scored. Players added afterwards play off the index
+// given for them, and everyone moves to the matching tee on a new course.
+// Scrambles take their corrected team cards instead of player scores.
+export const applyCorrection = (
+  round: Round,
+  correction: RoundCorrection,
+  getIndex: (uid: string) => number | null
+): Round => {
+  const courseChanged = correction.course.id !== round.courseId;
+  const scores: RoundScore[] = correction.players.map(uid => {
+    const saved = round.scores.find(score => score.uid === uid);
+    const index = saved ? saved.handicapIndex ?? null : getIndex(uid);
+    const tee = courseChanged || !saved ? getCourseRoundTee(correction.course, saved?.tee) : saved.tee;
+    const { tee: _tee, pickedUp: _pickedUp, ...rest } = saved || { uid, holes: [] };
+    const pickedUp = (correction.pickedUp[uid] || []).filter(hole => hole < round.holeCount);
+
+    return {
+      ...rest,
+      holes: Array.from({ length: round.holeCount }, (_, i) => correction.scores[uid]?.[i] || 0),
+      ...(index !== null ? { handicapIndex: index } : {}),
+      ...(tee ? { tee } : {}),
+      ...(pickedUp.length > 0 ? { pickedUp } : {})
+    };
+  });
+
+  const corrected: Round = {
+    ...round,
+    date: correction.date,
+    courseId: correction.course.id!,
+    courseName: correction.course.name,
+    course: correction.course,
+    location: correction.course.location || round.location,
+    par: getHolePars({ course: correction.course, par: round.par, holeCount: round.holeCount }).reduce((sum, par) => sum + par, 0),
+    players: correction.players,
+    ...(round.format === 'scramble' && round.teams
+      ? {
+          teams: round.teams.map(team => ({
+            ...team,
+            holes: Array.from({ length: round.holeCount }, (_, i) => correction.teamScores[team.id]?.[i] || 0)
+          }))
+        }
+      : { scores })
+  };
+
+  return rescoreRound(corrected);
+};
+
+// What an edit changed, for the round's audit trail
+export const getRoundChanges = (before: Round, after: Round): RoundChange[] => {
+  const changes: RoundChange[] = [];
+
+  if (before.date !== after.date) {
+    changes.push({ field: 'date', before: before.date, after: after.date });
+  }
+  if (before.courseId !== after.courseId) {
+    changes.push({ field: 'course', before: before.courseName, after: after.courseName });
+  }
+  if (before.players.join() !== after.players.join()) {
+    changes.push({ field: 'players', before: before.players, after: after.players });
+  }
+
+  after.players.filter(uid => before.players.includes(uid)).forEach(uid => {
+    const previous = before.scores.find(score => score.uid === uid);
+    const next = after.scores.find(score => score.uid === uid);
+    for (let hole = 0; hole < after.holeCount; hole++) {
+      const was = formatHoleScore(previous, hole);
+      const now = formatHoleScore(next, hole);
+      if (was !== now) {
+        changes.push({ field: 'score', uid, hole, before: was, after: now });
+      }
+    }
+  });
+
+  // A scramble's only scores are the team cards
+  const teams = after.format === 'scramble' ? after.teams || [] : [];
+  teams.forEach(team => {
+    const previous = before.teams?.find(t => t.id === team.id);
+    for (let hole = 0; hole < after.holeCount; hole++) {
+      const was = formatHoleScore(previous, hole);
+      const now = formatHoleScore(team, hole);
+      if (was !== now) {
+        changes.push({ field: 'score', teamId: team.id, hole, before: was, after: now });
+      }
+    }
+  });
+
+  return changes;
+};
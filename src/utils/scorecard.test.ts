@@ -0,0 +1,159 @@
+import type { Round, TeeSet } from './firebase';
+import {
+  createDefaultLayout,
+  createTeeSet,
+  formatToPar,
+  getCourseHoleIndexes,
+  getCoursePars,
+  getCourseTees,
+  getHolePars,
+  getLayoutPar,
+  getScoreLabel,
+  getTeeYardage,
+  resizeLayout,
+  resizeTeeYardages,
+  toRoundTee,
+  validateLayout,
+  validateTees
+} from './scorecard';
+import { fours } from '../test/fixtures';
+
+describe('createDefaultLayout', () => {
+  it('spreads a short par across the card', () => {
+    const layout = createDefaultLayout(9, 34);
+
+    expect(layout.map(hole => hole.par)).toEqual([3, 4, 4, 4, 4, 4, 4, 3, 4]);
+    expect(getLayoutPar(layout)).toBe(34);
+  });
+
+  it('puts odd stroke indexes on the front nine and even on the back', () => {
+    const indexes = createDefaultLayout(18).map(hole => hole.handicap);
+
+    expect(indexes.slice(0, 3)).toEqual([1, 3, 5]);
+    expect(indexes.slice(9, 12)).toEqual([2, 4, 6]);
+    expect(validateLayout(createDefaultLayout(18, 72))).toBeNull();
+  });
+});
+
+describe('resizeLayout', () => {
+  it('keeps the holes already entered', () => {
+    const layout = createDefaultLayout(9).map(hole => ({ ...hole, par: 5 }));
+    const resized = resizeLayout(layout, 18);
+
+    expect(resized).toHaveLength(18);
+    expect(resized[8].par).toBe(5);
+    expect(resized[9].par).toBe(4);
+  });
+});
+
+describe('validateLayout', () => {
+  const layout = createDefaultLayout(9);
+
+  it('needs a sensible par on every hole', () => {
+    expect(validateLayout([{ ...layout[0], par: 2 }, ...layout.slice(1)])).toBe('Each hole needs a par between 3 and 6');
+  });
+
+  it('keeps stroke indexes in range', () => {
+    expect(validateLayout([{ ...layout[0], handicap: 10 }, ...layout.slice(1)])).toBe('Stroke indexes must be between 1 and 9');
+  });
+
+  it('does not allow two holes the same stroke index', () => {
+    expect(validateLayout([{ ...layout[0], handicap: 2 }, ...layout.slice(1)])).toBe('Each hole needs a different stroke index');
+  });
+});
+
+describe('getCoursePars', () => {
+  it('reads pars from the layout', () => {
+    expect(getCoursePars({ par: 34, holes: 9, holeLayout: createDefaultLayout(9, 34) }, 9)).toEqual([3, 4, 4, 4, 4, 4, 4, 3, 4]);
+  });
+
+  it('splits the total evenly without a layout', () => {
+    expect(getCoursePars({ par: 27, holes: 9 }, 9)).toEqual(new Array(9).fill(3));
+    expect(getCoursePars(null, 9)).toEqual(fours(9));
+  });
+
+  it('falls back when the layout is shorter than the round', () => {
+    expect(getCoursePars({ par: 36, holes: 9, holeLayout: createDefaultLayout(9, 34) }, 18)).toEqual(fours(18));
+  });
+});
+
+describe('getHolePars', () => {
+  it('reads a legacy round from its total par', () => {
+    const legacy = { course: 'Muni', par: 27, holeCount: 9 } as Pick<Round, 'course' | 'par' | 'holeCount'>;
+    expect(getHolePars(legacy)).toEqual(new Array(9).fill(3));
+  });
+});
+
+describe('getCourseHoleIndexes', () => {
+  it('defaults to hole order without a layout', () => {
+    expect(getCourseHoleIndexes(undefined, 3)).toEqual([1, 2, 3]);
+  });
+
+  it('reads stroke indexes from the layout', () => {
+    expect(getCourseHoleIndexes({ holeLayout: createDefaultLayout(18) }, 18).slice(8, 10)).toEqual([17, 2]);
+  });
+});
+
+describe('getCourseTees', () => {
+  const blue: TeeSet = { id: 'blue', name: 'Blue', color: 'Blue', rating: 35.2, slope: 128, yardages: [380, 150, 510] };
+
+  it('uses the tee sets a course has', () => {
+    expect(getCourseTees({ holes: 3, tees: [blue], rating: 34, slope: 120 })).toEqual([blue]);
+  });
+
+  it('treats the rating and slope of an older course as one tee', () => {
+    expect(getCourseTees({ holes: 3, rating: 34, slope: 120 })).toEqual([
+      { id: 'default', name: 'Default', color: 'White', rating: 34, slope: 120, yardages: [0, 0, 0] }
+    ]);
+  });
+
+  it('has no tees without a rating', () => {
+    expect(getCourseTees({ holes: 9 })).toEqual([]);
+    expect(getCourseTees(null)).toEqual([]);
+  });
+});
+
+describe('tee sets', () => {
+  const tee = { ...createTeeSet(3, 'Red'), rating: 33.1, yardages: [300, 120, 0] };
+
+  it('snapshots the tee with the course par', () => {
+    expect(toRoundTee(tee, 36)).toEqual({ id: tee.id, name: 'Red', rating: 33.1, slope: 113, par: 36 });
+  });
+
+  it('adds up the yardages it knows', () => {
+    expect(getTeeYardage(tee)).toBe(420);
+  });
+
+  it('keeps yardages in step with the hole count', () => {
+    expect(resizeTeeYardages([tee], 5)[0].yardages).toEqual([300, 120, 0, 0, 0]);
+    expect(resizeTeeYardages([tee], 2)[0].yardages).toEqual([300, 120]);
+  });
+});
+
+describe('validateTees', () => {
+  const tee = createTeeSet(9);
+
+  it('accepts a tee without a rating', () => {
+    expect(validateTees([tee])).toBeNull();
+  });
+
+  it('needs a name on every tee', () => {
+    expect(validateTees([{ ...tee, name: ' ' }])).toBe('Each tee set needs a name');
+  });
+
+  it('keeps ratings and slopes in range', () => {
+    expect(validateTees([{ ...tee, rating: 95 }])).toBe('Course ratings must be between 25 and 90');
+    expect(validateTees([{ ...tee, slope: 160 }])).toBe('Slope ratings must be between 55 and 155');
+  });
+});
+
+describe('scoring relative to par', () => {
+  it('names a score by its distance from par', () => {
+    expect([3, 4, 5, 7].map(score => getScoreLabel(score, 4))).toEqual(['Birdie', 'Par', 'Bogey', 'Triple+']);
+    expect(getScoreLabel(1, 3)).toBe('Hole in One!');
+  });
+
+  it('formats level par as E', () => {
+    expect([0, 2, -3].map(formatToPar)).toEqual(['E', '+2', '-3']);
+  });
+});
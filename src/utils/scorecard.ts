@@ -0,0 +1,174 @@
+import type { Course, CourseHole, Round, RoundTee, TeeSet } from './firebase';
+
+// Default layout when a course has no hole-by-hole data: par 4s, adjusted
+// towards the course total with par 3s/5s, and odd stroke indexes on the
+// front nine / even on the back like most real scorecards.
+export const createDefaultLayout = (holeCount: number, totalPar?: number): CourseHole[] => {
+  const pars = new Array(holeCount).fill(4);
+  let diff = (totalPar || holeCount * 4) - holeCount * 4;
+
+  // Spread the adjustment across the card instead of bunching it at the start
+  for (let step = 0; diff !== 0 && step < holeCount; step++) {
+    const i = (step * 7) % holeCount;
+    pars[i] += diff > 0 ? 1 : -1;
+    diff += diff > 0 ? -1 : 1;
+  }
+
+  return pars.map((par, i) => ({
+    number: i + 1,
+    par,
+    handicap: holeCount === 18 ? (i < 9 ? i * 2 + 1 : (i - 9) * 2 + 2) : i + 1
+  }));
+};
+
+// Resize a layout when the hole count changes, keeping the holes already entered
+export const resizeLayout = (layout: CourseHole[], holeCount: number): CourseHole[] => {
+  if (layout.length === holeCount) {
+    return layout;
+  }
+  const defaults = createDefaultLayout(holeCount);
+  return defaults.map((hole, i) => layout[i] || hole);
+};
+
+export const getLayoutPar = (layout: CourseHole[]): number =>
+  layout.reduce((sum, hole) => sum + (hole.par || 0), 0);
+
+// Returns an error message for an invalid layout, or null if it's usable
+export const validateLayout = (layout: CourseHole[]): string | null => {
+  if (layout.some(hole => !hole.par || hole.par < 3 || hole.par > 6)) {
+    return 'Each hole needs a par between 3 and 6';
+  }
+
+  const indexes = layout.map(hole => hole.handicap);
+  if (indexes.some(index => !index || index < 1 || index > layout.length)) {
+    return `Stroke indexes must be between 1 and ${layout.length}`;
+  }
+  if (new Set(indexes).size !== indexes.length) {
+    return 'Each hole needs a different stroke index';
+  }
+
+  return null;
+};
+
+// Per-hole par for a course, falling back to an even split of the total
+export const getCoursePars = (course: Pick<Course, 'holeLayout' | 'par' | 'holes'> | null | undefined, holeCount: number): number[] => {
+  if (course?.holeLayout && course.holeLayout.length >= holeCount) {
+    return course.holeLayout.slice(0, holeCount).map(hole => hole.par);
+  }
+
+  const parPerHole = course?.par && course?.holes ? Math.round(course.par / course.holes) : 4;
+  return new Array(holeCount).fill(parPerHole || 4);
+};
+
+// Per-hole par for a saved round. New rounds carry the course snapshot with its
+// layout; legacy rounds only have the round total (or nothing at all).
+export const getHolePars = (round: Pick<Round, 'course' | 'par' | 'holeCount'>, holeCount?: number): number[] => {
+  const count = holeCount || round.holeCount || 18;
+
+  if (round.course && typeof round.course !== 'string' && round.course.holeLayout) {
+    return getCoursePars(round.course, count);
+  }
+
+  return getCoursePars({ par: round.par, holes: round.holeCount }, count);
+};
+
+// Stroke index per hole, defaulting to hole order when the course has no layout
+export const getCourseHoleIndexes = (course: Pick<Course, 'holeLayout'> | null | undefined, holeCount: number): number[] => {
+  if (course?.holeLayout && course.holeLayout.length >= holeCount) {
+    return course.holeLayout.slice(0, holeCount).map(hole => hole.handicap);
+  }
+  return Array.from({ length: holeCount }, (_, i) => i + 1);
+};
+
+export const getHoleIndexes = (round: Pick<Round, 'course' | 'holeCount'>, holeCount?: number): number[] => {
+  const count = holeCount || round.holeCount || 18;
+  return getCourseHoleIndexes(typeof round.course === 'string' ? null : round.course, count);
+};
+
+export const TEE_COLORS = ['Black', 'Blue', 'White', 'Gold', 'Red', 'Green', 'Silver'];
+
+export const createTeeSet = (holeCount: number, color = 'White'): TeeSet => ({
+  id: `tee-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: color,
+  color,
+  rating: 0,
+  slope: 113,
+  yardages: new Array(holeCount).fill(0)
+});
+
+export const resizeTeeYardages = (tees: TeeSet[], holeCount: number): TeeSet[] =>
+  tees.map(tee => ({
+    ...tee,
+    yardages: Array.from({ length: holeCount }, (_, i) => tee.yardages[i] || 0)
+  }));
+
+// Courses saved before tee sets only have a single rating/slope; treat that as one tee
+export const getCourseTees = (course: Pick<Course, 'tees' | 'rating' | 'slope' | 'holes'> | null | undefined): TeeSet[] => {
+  if (!course) return [];
+  if (course.tees && course.tees.length > 0) return course.tees;
+  if (course.rating && course.slope) {
+    return [{
+      id: 'default',
+      name: 'Default',
+      color: 'White',
+      rating: course.rating,
+      slope: course.slope,
+      yardages: new Array(course.holes || 18).fill(0)
+    }];
+  }
+  return [];
+};
+
+export const toRoundTee = (tee: TeeSet, coursePar: number): RoundTee => ({
+  id: tee.id,
+  name: tee.name,
+  rating: tee.rating,
+  slope: tee.slope,
+  par: coursePar
+});
+
+export const getTeeYardage = (tee: TeeSet) => tee.yardages.reduce((sum, yards) => sum + (yards || 0), 0);
+
+// Returns an error message for invalid tee sets, or null if they're usable
+export const validateTees = (tees: TeeSet[]): string | null => {
+  if (tees.some(tee => !tee.name.trim())) {
+    return 'Each tee set needs a name';
+  }
+  // Ratings are optional (0), but must be sensible when given
+  if (tees.some(tee => tee.rating && (tee.rating < 25 || tee.rating > 90))) {
+    return 'Course ratings must be between 25 and 90';
+  }
+  if (tees.some(tee => tee.slope && (tee.slope < 55 || tee.slope > 155))) {
+    return 'Slope ratings must be between 55 and 155';
+  }
+  return null;
+};
+
+export const getScoreLabel = (score: number, par: number) => {
+  if (!score) return '';
+  if (score === 1) return 'Hole in One!';
+  const diff = score - par;
+  if (diff <= -3) return 'Albatross';
+  if (diff === -2) return 'Eagle';
+  if (diff === -1) return 'Birdie';
+  if (diff === 0) return 'Par';
+  if (diff === 1) return 'Bogey';
+  if (diff === 2) return 'Double Bogey';
+  return 'Triple+';
+};
+
+export const getScoreColor = (score: number, par: number) => {
+  if (!score) return 'bg-gray-50 text-gray-500 border-gray-200'; // Empty
+  if (score === 1) return 'bg-green-100 text-green-800 border-green-300'; // Hole in one
+  const diff = score - par;
+  if (diff <= -2) return 'bg-blue-100 text-blue-800 border-blue-300'; // Eagle or better
+  if (diff === -1) return 'bg-purple-100 text-purple-800 border-purple-300'; // Birdie
+  if (diff === 0) return 'bg-gray-100 text-gray-800 border-gray-300'; // Par
+  if (diff === 1) return 'bg-yellow-100 text-yellow-800 border-yellow-300'; // Bogey
+  return 'bg-red-100 text-red-800 border-red-300'; // Double bogey or worse
+};
+
+export const formatToPar = (toPar: number) => {
+  if (toPar === 0) return 'E';
+  return toPar > 0 ? `+${toPar}` : `${toPar}`;
+};
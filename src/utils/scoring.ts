@@ -0,0 +1,61 @@
+import type { Round, RoundScore } from './firebase';
+
+// Scoring primitives shared by the format engine (formats.ts), stats and
+// handicaps. Kept free of other utils so anything can depend on it.
+
+// Total of the holes played; unplayed holes are 0
+export const sumHoles = (holes: number[]) => holes.reduce((sum, score) => sum + (score || 0), 0);
+
+// Relative to par over the holes played so far
+export const getToPar = (holes: number[], pars: number[]) =>
+  holes.reduce((sum, score, i) => sum + (score ? score - pars[i] : 0), 0);
+
+// Stands in for a picked-up hole ("X") where a game needs a number: worse
+// than any real score, so it loses the hole and earns no Stableford points
+export const PICKED_UP_SCORE = 99;
+
+export const withPickups = (holes: number[], pickedUp: number[] = []) =>
+  holes.map((score, i) => (pickedUp.includes(i) ? PICKED_UP_SCORE : score));
+
+// Holes finished so far, pickups included, for "thru 7" on a round in progress
+export const getHolesThru = (score: Pick<RoundScore, 'holes' | 'pickedUp'>) =>
+  score.holes.filter((hole, i) => hole > 0 || (score.pickedUp || []).includes(i)).length;
+
+export const getPlayerHoles = (round: Pick<Round, 'scores'>, uid: string): number[] =>
+  round.scores.find(s => s.uid === uid)?.holes || [];
+
+export interface RankedEntry {
+  total: number;
+  position: number; // 1-based; tied entries share a position
+}
+
+// Positions for a set of totals, e.g. 1, 2, 2, 4
+export const rankTotals = <T extends { total: number }>(entries: T[], lowerIsBetter: boolean): (T & RankedEntry)[] => {
+  const better = (a: number, b: number) => (lowerIsBetter ? a < b : a > b);
+  return entries
+    .map(entry => ({ ...entry, position: 1 + entries.filter(other => better(other.total, entry.total)).length }))
+    .sort((a, b) => a.position - b.position);
+};
+
+// Individual winners as saved; older rounds only stored a single winner
+export const getIndividualWinners = (round: Pick<Round, 'winner' | 'winners'>): string[] =>
+  round.winners || (round.winner ? [round.winner] : []);
+
+// Team ids sharing a saved team round's win
+export const getWinningTeamIds = (round: Pick<Round, 'winningTeam' | 'winningTeams'>): string[] =>
+  round.winningTeams || (round.winningTeam ? [round.winningTeam] : []);
+
+// Everyone who shares in a saved round's win: the winning teams, both partners
+// of a better-ball match, or the individual winners. A shared win counts for
+// each player in it. A solo round has nobody to beat.
+export const getRoundWinners = (
+  round: Pick<Round, 'players' | 'teams' | 'winningTeam' | 'winningTeams' | 'match' | 'winner' | 'winners'>
+): string[] => {
+  if (round.players.length <= 1) return [];
+  if (round.teams) {
+    const teamIds = getWinningTeamIds(round);
+    return round.teams.filter(team => teamIds.includes(team.id)).flatMap(team => team.players);
+  }
+  if (round.match) return round.match.winners;
+  return getIndividualWinners(round);
+};
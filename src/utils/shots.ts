@@ -0,0 +1,72 @@
+import type { HoleShots, Shot, ShotLie, ShotResult } from './firebase';
+
+export const CLUBS = [
+  'Driver', '3W', '5W', 'Hybrid',
+  '3i', '4i', '5i', '6i', '7i', '8i', '9i',
+  'PW', 'GW', 'SW', 'LW', 'Putter'
+];
+
+export const SHOT_LIES: { value: ShotLie; label: string }[] = [
+  { value: 'tee', label: 'Tee' },
+  { value: 'fairway', label: 'Fairway' },
+  { value: 'rough', label: 'Rough' },
+  { value: 'sand', label: 'Sand' },
+  { value: 'green', label: 'Green' }
+];
+
+export interface ShotResultInfo {
+  label: string;
+  penalty: boolean; // Costs a penalty stroke on top of the shot itself
+}
+
+export const SHOT_RESULTS: { [result in ShotResult]: ShotResultInfo } = {
+  fairway: { label: 'Fairway', penalty: false },
+  rough: { label: 'Rough', penalty: false },
+  sand: { label: 'Sand', penalty: false },
+  green: { label: 'Green', penalty: false },
+  holed: { label: 'Holed', penalty: false },
+  hazard: { label: 'Hazard', penalty: true },
+  ob: { label: 'OB', penalty: true },
+  tee: { label: 'Tee', penalty: false }
+};
+
+// Results offered after a shot; 'tee' is only ever a starting lie
+export const SHOT_RESULT_OPTIONS = (Object.keys(SHOT_RESULTS) as ShotResult[]).filter(result => result !== 'tee');
+
+// Strokes taken: every shot plus a stroke for each penalty
+export const getShotScore = (shots: Shot[]) =>
+  shots.reduce((sum, shot) => sum + 1 + (SHOT_RESULTS[shot.result].penalty ? 1 : 0), 0);
+
+export const isHoleFinished = (shots: Shot[]) => shots[shots.length - 1]?.result === 'holed';
+
+// Where the next shot is played from. A hazard drop is treated as rough and
+// out of bounds replays from the same spot.
+export const getNextLie = (shots: Shot[]): ShotLie => {
+  const last = shots[shots.length - 1];
+  if (!last) return 'tee';
+  if (last.result === 'hazard') return 'rough';
+  if (last.result === 'ob' || last.result === 'holed') return last.lie;
+  return last.result;
+};
+
+export const suggestClub = (lie: ShotLie, par: number, shots: Shot[]) => {
+  if (lie === 'green') return 'Putter';
+  if (lie === 'sand') return 'SW';
+  if (lie === 'tee') return par === 3 ? '7i' : 'Driver';
+  return shots[shots.length - 1]?.club || '7i';
+};
+
+// e.g. "Driver · Tee → Fairway · 245y"
+export const describeShot = (shot: Shot) => {
+  const lie = SHOT_LIES.find(option => option.value === shot.lie)?.label || shot.lie;
+  const distance = shot.distance ? ` · ${shot.distance}y` : '';
+  return `${shot.club} · ${lie} → ${SHOT_RESULTS[shot.result].label}${distance}`;
+};
+
+// Back from one entry per logged hole to each player's shots by hole
+export const groupShots = (entries: HoleShots[]) =>
+  entries.reduce<{ [uid: string]: Shot[][] }>((logs, entry) => {
+    const holes = [...(logs[entry.uid] || [])];
+    holes[entry.hole] = entry.shots;
+    return { ...logs, [entry.uid]: holes };
+  }, {});
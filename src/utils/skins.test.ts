@@ -0,0 +1,90 @@
+import { calculateSkins, describeSkinsHole, getSkinsHoleColor, SkinsOptions } from './skins';
+
+const OPTIONS: SkinsOptions = { mode: 'gross', carryovers: true, validation: false, value: 1 };
+const PLAYERS = ['a', 'b', 'c'];
+
+describe('calculateSkins', () => {
+  const scores = { a: [3, 4, 4, 5], b: [4, 4, 3, 5], c: [4, 4, 5, 6] };
+
+  it('carries a tied hole into the next skin', () => {
+    const result = calculateSkins(PLAYERS, scores, 4, OPTIONS);
+
+    expect(result.holes.map(hole => [hole.status, hole.winner, hole.skins])).toEqual([
+      ['won', 'a', 1],
+      ['carried', null, 0],
+      ['won', 'b', 2],
+      ['carried', null, 0]
+    ]);
+    expect(result.totals).toEqual([
+      { uid: 'a', skins: 1, amount: 0 },
+      { uid: 'b', skins: 2, amount: 3 },
+      { uid: 'c', skins: 0, amount: -3 }
+    ]);
+  });
+
+  it('voids a tied hole without carryovers', () => {
+    const result = calculateSkins(PLAYERS, scores, 4, { ...OPTIONS, carryovers: false });
+
+    expect(result.holes.map(hole => hole.status)).toEqual(['won', 'void', 'won', 'void']);
+    expect(result.holes[2].skins).toBe(1);
+  });
+
+  it('stops at the first hole someone has not scored', () => {
+    const result = calculateSkins(PLAYERS, { ...scores, c: [4, 4] }, 4, OPTIONS);
+    expect(result.holes).toHaveLength(2);
+  });
+
+  it('scales the amounts by the skin value', () => {
+    const result = calculateSkins(PLAYERS, scores, 4, { ...OPTIONS, value: 5 });
+    expect(result.totals.map(total => total.amount)).toEqual([0, 15, -15]);
+  });
+
+  describe('with validation', () => {
+    const options = { ...OPTIONS, validation: true };
+
+    it('keeps the skin when the winner matches the field on the next hole', () => {
+      const result = calculateSkins(['a', 'b'], { a: [3, 4, 4], b: [4, 4, 5] }, 3, options);
+
+      expect(result.holes.map(hole => hole.status)).toEqual(['won', 'carried', 'won']);
+    });
+
+    it('forfeits the skin back into the pot when the winner is beaten', () => {
+      const result = calculateSkins(['a', 'b'], { a: [3, 5, 4], b: [4, 4, 4] }, 3, options);
+
+      expect(result.holes.map(hole => [hole.status, hole.winner, hole.skins])).toEqual([
+        ['forfeited', 'a', 1],
+        ['won', 'b', 2],
+        ['carried', null, 0]
+      ]);
+    });
+
+    it('leaves the skin pending until the next hole is played', () => {
+      const result = calculateSkins(['a', 'b'], { a: [3], b: [4] }, 3, options);
+      expect(result.holes[0].status).toBe('pending');
+    });
+
+    it('needs no validation on the last hole', () => {
+      const result = calculateSkins(['a', 'b'], { a: [4, 3], b: [4, 4] }, 2, options);
+      expect(result.holes[1].status).toBe('won');
+    });
+  });
+});
+
+describe('describeSkinsHole', () => {
+  it('says how many skins a hole is worth', () => {
+    expect(describeSkinsHole({ winner: 'a', skins: 1, status: 'won' }, 'Dave')).toBe('Dave wins 1 skin');
+    expect(describeSkinsHole({ winner: 'a', skins: 3, status: 'pending' }, 'Dave')).toBe('Dave for 3 skins?');
+  });
+
+  it('explains holes nobody won', () => {
+    expect(describeSkinsHole({ winner: 'a', skins: 1, status: 'forfeited' }, 'Dave')).toBe("Dave didn't validate");
+    expect(describeSkinsHole({ winner: null, skins: 0, status: 'carried' }, '')).toBe('Carryover');
+    expect(describeSkinsHole({ winner: null, skins: 0, status: 'void' }, '')).toBe('Tied, no skin');
+  });
+
+  it('highlights won and pending holes', () => {
+    expect(getSkinsHoleColor({ winner: 'a', skins: 1, status: 'won' })).toBe('text-green-700');
+    expect(getSkinsHoleColor({ winner: 'a', skins: 1, status: 'pending' })).toBe('text-amber-600');
+    expect(getSkinsHoleColor({ winner: null, skins: 0, status: 'carried' })).toBe('text-gray-400');
+  });
+});
@@ -0,0 +1,111 @@
+import type { ScoringMode, SkinsHole, SkinsResult, SkinsTotal } from './firebase';
+
+export interface SkinsOptions {
+  mode: ScoringMode;
+  carryovers: boolean;
+  validation: boolean;
+  value: number;
+}
+
+export const DEFAULT_SKINS_OPTIONS: SkinsOptions = {
+  mode: 'gross',
+  carryovers: true,
+  validation: false,
+  value: 1
+};
+
+// Each skin is paid by every other player, so the amounts always sum to zero
+const getSkinsTotals = (players: string[], holes: SkinsHole[], value: number): SkinsTotal[] => {
+  const won = (uid: string) =>
+    holes.filter(h => h.status === 'won' && h.winner === uid).reduce((sum, h) => sum + h.skins, 0);
+  const totalSkins = players.reduce((sum, uid) => sum + won(uid), 0);
+
+  return players.map(uid => ({
+    uid,
+    skins: won(uid),
+    amount: value * (players.length * won(uid) - totalSkins)
+  }));
+};
+
+// Plays the skins game over the holes scored so far. `scores` are the gross or
+// net hole scores to compare, and scoring stops at the first hole someone
+// hasn't entered yet.
+export const calculateSkins = (
+  players: string[],
+  scores: { [uid: string]: number[] },
+  holeCount: number,
+  options: SkinsOptions
+): SkinsResult => {
+  const holes: SkinsHole[] = [];
+  let pot = 0;
+  let pending: number | null = null; // Hole whose skin awaits validation
+
+  for (let hole = 0; hole < holeCount; hole++) {
+    const holeScores = players.map(uid => scores[uid]?.[hole] || 0);
+    if (players.length === 0 || holeScores.some(score => score <= 0)) {
+      break;
+    }
+
+    pot += 1;
+    const best = Math.min(...holeScores);
+
+    // The previous winner keeps the skin by tying or beating the field here
+    if (pending !== null) {
+      const previous = holes[pending];
+      const previousScore = scores[previous.winner!][hole];
+      if (previousScore <= best) {
+        previous.status = 'won';
+      } else {
+        previous.status = 'forfeited';
+        if (options.carryovers) {
+          pot += previous.skins;
+        }
+      }
+      pending = null;
+    }
+
+    const leaders = players.filter((_, i) => holeScores[i] === best);
+    if (leaders.length === 1) {
+      const needsValidation = options.validation && hole < holeCount - 1;
+      holes.push({ winner: leaders[0], skins: pot, status: needsValidation ? 'pending' : 'won' });
+      if (needsValidation) {
+        pending = hole;
+      }
+      pot = 0;
+    } else {
+      holes.push({ winner: null, skins: 0, status: options.carryovers ? 'carried' : 'void' });
+      if (!options.carryovers) {
+        pot = 0;
+      }
+    }
+  }
+
+  return {
+    ...options,
+    holes,
+    totals: getSkinsTotals(players, holes, options.value)
+  };
+};
+
+// Scorecard note for a hole, e.g. "Dave wins 3 skins" or "Carryover"
+export const describeSkinsHole = (hole: SkinsHole, winnerName: string) => {
+  const skins = `${hole.skins} skin${hole.skins !== 1 ? 's' : ''}`;
+  switch (hole.status) {
+    case 'won':
+      return `${winnerName} wins ${skins}`;
+    case 'pending':
+      return `${winnerName} for ${skins}?`;
+    case 'forfeited':
+      return `${winnerName} didn't validate`;
+    case 'carried':
+      return 'Carryover';
+    default:
+      return 'Tied, no skin';
+  }
+};
+
+export const getSkinsHoleColor = (hole: SkinsHole) => {
+  if (hole.status === 'won') return 'text-green-700';
+  if (hole.status === 'pending') return 'text-amber-600';
+  return 'text-gray-400';
+};
@@ -0,0 +1,34 @@
+import { getStablefordHoles, getStablefordLabel, getStablefordPoints } from './stableford';
+
+describe('getStablefordPoints', () => {
+  it('gives two points for a net par', () => {
+    expect([3, 4, 5, 6, 7].map(score => getStablefordPoints(score, 4, 0, 'standard'))).toEqual([3, 2, 1, 0, 0]);
+  });
+
+  it('counts a handicap stroke towards the net score', () => {
+    expect(getStablefordPoints(5, 4, 1, 'standard')).toBe(2);
+    expect(getStablefordPoints(5, 4, 1, 'modified')).toBe(0);
+  });
+
+  it('rewards birdies and punishes doubles in the modified game', () => {
+    expect([1, 2, 3, 4, 5, 6, 9].map(score => getStablefordPoints(score, 4, 0, 'modified'))).toEqual([8, 5, 2, 0, -1, -3, -3]);
+  });
+
+  it('scores nothing on an unplayed hole', () => {
+    expect(getStablefordPoints(0, 4, 1, 'standard')).toBe(0);
+    expect(getStablefordPoints(0, 4, 0, 'modified')).toBe(0);
+  });
+});
+
+describe('getStablefordHoles', () => {
+  it('scores each hole with its own par and strokes', () => {
+    expect(getStablefordHoles([4, 4, 0], [3, 4, 5], [1], 'standard')).toEqual([2, 2, 0]);
+  });
+});
+
+describe('getStablefordLabel', () => {
+  it('names the variant', () => {
+    expect(getStablefordLabel('standard')).toBe('Stableford');
+    expect(getStablefordLabel('modified')).toBe('Modified Stableford');
+  });
+});
@@ -0,0 +1,37 @@
+import type { StablefordVariant } from './firebase';
+
+// Points by net score relative to par, from albatross (-3) to double bogey (+2)
+const MODIFIED_POINTS: { [toPar: number]: number } = {
+  [-3]: 8,
+  [-2]: 5,
+  [-1]: 2,
+  0: 0,
+  1: -1,
+  2: -3
+};
+
+// Points for one hole. Unplayed holes score nothing.
+export const getStablefordPoints = (score: number, par: number, strokes: number, variant: StablefordVariant): number => {
+  if (!score || score <= 0) {
+    return 0;
+  }
+
+  const toPar = score - strokes - par;
+
+  if (variant === 'modified') {
+    const clamped = Math.max(-3, Math.min(2, toPar));
+    return MODIFIED_POINTS[clamped];
+  }
+
+  return Math.max(0, 2 - toPar);
+};
+
+export const getStablefordHoles = (
+  holes: number[],
+  pars: number[],
+  strokes: number[],
+  variant: StablefordVariant
+): number[] => holes.map((score, i) => getStablefordPoints(score, pars[i], strokes[i] || 0, variant));
+
+export const getStablefordLabel = (variant: StablefordVariant) =>
+  variant === 'modified' ? 'Modified Stableford' : 'Stableford';
@@ -0,0 +1,107 @@
+import type { Round } from './firebase';
+import { aggregateStats, EMPTY_STATS, getRoundContribution, isFinishedRound, NO_BEST_SCORE, normalizeRound, replaceRound } from './stats';
+import { fours, makeRound } from '../test/fixtures';
+
+describe('aggregateStats', () => {
+  const rounds = [
+    makeRound({ id: 'r1', scores: [{ uid: 'a', holes: [3, ...fours(8)] }, { uid: 'b', holes: fours(9) }], winners: ['a'] }),
+    makeRound({ id: 'r2', scores: [{ uid: 'a', holes: [5, ...fours(8)] }, { uid: 'b', holes: [3, 3, ...fours(7)] }], winners: ['b'] })
+  ];
+
+  it('adds up wins, birdies and scoring', () => {
+    expect(aggregateStats(rounds, 'a')).toMatchObject({
+      wins: 1,
+      birdies: 1,
+      bestScore: 35,
+      averageScore: 36,
+      roundsPlayed: 2
+    });
+  });
+
+  it('counts a round with a pickup as played but not towards scoring', () => {
+    const withPickup = makeRound({ id: 'r3', scores: [{ uid: 'a', holes: [0, ...fours(8)], pickedUp: [0] }, { uid: 'b', holes: fours(9) }] });
+
+    expect(aggregateStats([...rounds, withPickup], 'a')).toMatchObject({ roundsPlayed: 3, bestScore: 35, averageScore: 36 });
+    expect(aggregateStats([withPickup], 'a')).toMatchObject({ roundsPlayed: 1, bestScore: NO_BEST_SCORE, averageScore: 0 });
+  });
+
+  it('leaves out rounds still being played', () => {
+    const draft = makeRound({ id: 'r3', scores: [{ uid: 'a', holes: [2, ...fours(8)] }, { uid: 'b', holes: fours(9) }], status: 'in_progress' });
+
+    expect(isFinishedRound(draft)).toBe(false);
+    expect(aggregateStats([...rounds, draft], 'a')).toEqual(aggregateStats(rounds, 'a'));
+  });
+
+  it('counts team wins for players without a score', () => {
+    const scramble = makeRound({
+      id: 'r3',
+      players: ['a', 'b'],
+      teams: [{ id: 't1', name: 'Team 1', players: ['a', 'b'], holes: fours(9), gross: 36, net: 36, handicap: 0 }],
+      winningTeams: ['t1']
+    });
+
+    expect(aggregateStats([scramble], 'a')).toEqual({ ...EMPTY_STATS, wins: 1 });
+  });
+
+  it('gives no win for a solo round', () => {
+    const solo = makeRound({ id: 'r3', scores: [{ uid: 'a', holes: fours(9) }], winners: ['a'] });
+    expect(aggregateStats([solo], 'a').wins).toBe(0);
+  });
+});
+
+describe('getRoundContribution', () => {
+  it('is null for a player without a score', () => {
+    const round = makeRound({ scores: [{ uid: 'a', holes: fours(9) }, { uid: 'b', holes: new Array(9).fill(0) }] });
+
+    expect(getRoundContribution(round, 'b')).toBeNull();
+    expect(getRoundContribution(round, 'c')).toBeNull();
+  });
+});
+
+describe('normalizeRound', () => {
+  it('fills in what older rounds were saved without', () => {
+    const legacy = { id: 'old', course: 'Muni', date: '2020-01-01', scores: [{ uid: 'a', holes: fours(9) }] } as unknown as Round;
+
+    expect(normalizeRound(legacy)).toMatchObject({ courseName: 'Muni', players: ['a'], holeCount: 9, par: 36 });
+  });
+});
+
+describe('replaceRound', () => {
+  const rounds = [makeRound({ id: 'r1' }), makeRound({ id: 'r2' })];
+
+  it('swaps an edited round in', () => {
+    const edited = makeRound({ id: 'ignored', date: '2024-06-01' });
+    expect(replaceRound(rounds, 'r2', edited).map(round => [round.id, round.date])).toEqual([
+      ['r1', '2024-05-01'],
+      ['r2', '2024-06-01']
+    ]);
+  });
+
+  it('drops a deleted round', () => {
+    expect(replaceRound(rounds, 'r1', null).map(round => round.id)).toEqual(['r2']);
+  });
+});
+
+describe('keeping stats in step with round writes', () => {
+  const round = makeRound({ scores: [{ uid: 'a', holes: [3, ...fours(8)] }, { uid: 'b', holes: fours(9) }], winners: ['a'] });
+
+  it('replays an edited round instead of adding to the old totals', () => {
+    const edited = { ...round, scores: [{ uid: 'a', holes: [6, ...fours(8)] }, { uid: 'b', holes: fours(9) }], winners: ['b'] };
+
+    expect(aggregateStats(replaceRound([round], 'r1', edited), 'a')).toMatchObject({
+      wins: 0,
+      birdies: 0,
+      bestScore: 38,
+      roundsPlayed: 1
+    });
+  });
+
+  it('takes a deleted round back out', () => {
+    expect(aggregateStats(replaceRound([round], 'r1', null), 'a')).toEqual(EMPTY_STATS);
+  });
+
+  it('drops the round for a player removed from it', () => {
+    const edited = { ...round, players: ['a'], scores: [round.scores[0]] };
+    expect(aggregateStats(replaceRound([round], 'r1', edited), 'b')).toEqual(EMPTY_STATS);
+  });
+});
@@ -0,0 +1,97 @@
+import type { HoleStatTotals, Round, User } from './firebase';
+import { addHoleStats, EMPTY_HOLE_STATS, getHoleStatTotals } from './holeStats';
+import { getHolePars } from './scorecard';
+import { getPlayerHoles, getRoundWinners, sumHoles } from './scoring';
+
+export type UserStats = User['stats'];
+
+// Sentinel used for bestScore until a player has finished a round
+export const NO_BEST_SCORE = 999;
+
+export const EMPTY_STATS: UserStats = {
+  wins: 0,
+  birdies: 0,
+  bestScore: NO_BEST_SCORE,
+  averageScore: 0,
+  roundsPlayed: 0,
+  ...EMPTY_HOLE_STATS
+};
+
+// Drafts don't count for anything until they're finished
+export const isFinishedRound = (round: Round) => round.status !== 'in_progress';
+
+// Older rounds were saved before courseName/players/holeCount/par existed and
+// store `course` as a plain string, so fill in what the aggregation relies on
+export const normalizeRound = (round: Round): Round => {
+  const scores = round.scores || [];
+  const holeCount = round.holeCount || scores[0]?.holes.length || 18;
+
+  return {
+    ...round,
+    courseName: round.courseName || (typeof round.course === 'string' ? round.course : round.course?.name) || '',
+    players: round.players && round.players.length > 0 ? round.players : scores.map(s => s.uid),
+    scores,
+    holeCount,
+    par: round.par || holeCount * 4
+  };
+};
+
+export const getPlayerTotal = (round: Round, uid: string): number => sumHoles(getPlayerHoles(round, uid));
+
+export interface RoundContribution {
+  strokes: number | null; // Null when a pickup left the gross total incomplete
+  birdies: number;
+  holeStats: HoleStatTotals;
+}
+
+// What a single round adds to one player's stats, or null if they didn't post a score
+export const getRoundContribution = (round: Round, uid: string): RoundContribution | null => {
+  const playerScore = round.scores.find(s => s.uid === uid);
+  if (!playerScore || playerScore.holes.length === 0) {
+    return null;
+  }
+
+  const strokes = getPlayerTotal(round, uid);
+  const pickedUp = playerScore.pickedUp || [];
+  if (strokes <= 0 && pickedUp.length === 0) {
+    return null;
+  }
+
+  const pars = getHolePars(round, playerScore.holes.length);
+  const birdies = playerScore.holes.filter((score, i) => score > 0 && score === pars[i] - 1).length;
+
+  return { strokes: pickedUp.length > 0 ? null : strokes, birdies, holeStats: getHoleStatTotals(playerScore.holes, pars, playerScore.details) };
+};
+
+// Replays a player's rounds from scratch so edits and deletes can never leave stale totals behind
+export const aggregateStats = (rounds: Round[], uid: string): UserStats => {
+  const normalized = rounds.filter(isFinishedRound).map(normalizeRound);
+  const contributions = normalized
+    .map(round => getRoundContribution(round, uid))
+    .filter((c): c is RoundContribution => c !== null);
+  // Scrambles have no individual scores but still count as wins
+  const wins = normalized.filter(round => getRoundWinners(round).includes(uid)).length;
+
+  if (contributions.length === 0) {
+    return { ...EMPTY_STATS, wins };
+  }
+
+  // Rounds with a pickup still count as played, but not towards scoring
+  const totals = contributions.map(c => c.strokes).filter((strokes): strokes is number => strokes !== null);
+  const totalStrokes = totals.reduce((sum, strokes) => sum + strokes, 0);
+
+  return {
+    wins,
+    birdies: contributions.reduce((sum, c) => sum + c.birdies, 0),
+    bestScore: totals.length > 0 ? Math.min(...totals) : NO_BEST_SCORE,
+    averageScore: totals.length > 0 ? Math.round((totalStrokes / totals.length) * 10) / 10 : 0,
+    roundsPlayed: contributions.length,
+    ...contributions.reduce((totals, c) => addHoleStats(totals, c.holeStats), EMPTY_HOLE_STATS)
+  };
+};
+
+// Swap a round in (or out, when deleted) of a player's history before aggregating
+export const replaceRound = (rounds: Round[], roundId: string, next: Round | null): Round[] => {
+  const others = rounds.filter(r => r.id !== roundId);
+  return next ? [...others, { ...next, id: roundId }] : others;
+};
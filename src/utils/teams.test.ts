@@ -0,0 +1,42 @@
+import type { RoundTeam } from './firebase';
+import { getBestBallHoles, getDefaultScramblePercents, getRoundWinningTeams, getTeamHandicap } from './teams';
+
+describe('getTeamHandicap', () => {
+  it('weights the lowest handicap first', () => {
+    expect(getTeamHandicap([20, 10], [35, 15])).toBe(7);
+  });
+
+  it('gives nothing for players beyond the allowances', () => {
+    expect(getTeamHandicap([10, 20, 30], [50])).toBe(5);
+  });
+});
+
+describe('getDefaultScramblePercents', () => {
+  it('uses the allowance for the team size', () => {
+    expect(getDefaultScramblePercents(3)).toEqual([20, 15, 10]);
+  });
+
+  it('keeps odd team sizes within the table', () => {
+    expect(getDefaultScramblePercents(0)).toEqual([100]);
+    expect(getDefaultScramblePercents(6)).toEqual([25, 20, 15, 10]);
+  });
+});
+
+describe('getBestBallHoles', () => {
+  it('takes the best partner score on each hole', () => {
+    expect(getBestBallHoles(['a', 'b'], { a: [5, 4, 0], b: [4, 6] }, 4)).toEqual([4, 4, 0, 0]);
+  });
+});
+
+describe('getRoundWinningTeams', () => {
+  const teams = ['t1', 't2'].map(id => ({ id, name: id, players: [], holes: [], gross: 0, net: 0, handicap: 0 } as RoundTeam));
+
+  it('returns every team sharing the win', () => {
+    expect(getRoundWinningTeams({ teams, winningTeams: ['t1', 't2'] })).toEqual(teams);
+  });
+
+  it('reads the single winner older rounds saved', () => {
+    expect(getRoundWinningTeams({ teams, winningTeam: 't2' })).toEqual([teams[1]]);
+    expect(getRoundWinningTeams({ winningTeam: 't2' })).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import type { Round, RoundTeam } from './firebase';
+import { getSideScore } from './matchPlay';
+import { getWinningTeamIds } from './scoring';
+
+export interface TeamDraft {
+  id: string;
+  name: string;
+  players: string[];
+}
+
+// Recommended scramble allowances by team size, lowest handicap first
+export const DEFAULT_SCRAMBLE_PERCENTS: { [teamSize: number]: number[] } = {
+  1: [100],
+  2: [35, 15],
+  3: [20, 15, 10],
+  4: [25, 20, 15, 10]
+};
+
+export const MAX_TEAM_SIZE = 4;
+
+export const getDefaultScramblePercents = (teamSize: number) =>
+  DEFAULT_SCRAMBLE_PERCENTS[Math.min(Math.max(teamSize, 1), MAX_TEAM_SIZE)];
+
+// Weighted sum of the players' course handicaps, lowest handicap first
+export const getTeamHandicap = (courseHandicaps: number[], percents: number[]): number => {
+  const sorted = [...courseHandicaps].sort((a, b) => a - b);
+  return Math.round(sorted.reduce((sum, handicap, i) => sum + (handicap * (percents[i] || 0)) / 100, 0));
+};
+
+// Best individual ball on each hole, 0 until a team member has a score
+export const getBestBallHoles = (
+  players: string[],
+  scores: { [uid: string]: number[] },
+  holeCount: number
+): number[] => Array.from({ length: holeCount }, (_, hole) => getSideScore(players, scores, hole));
+
+export const getRoundWinningTeams = (round: Pick<Round, 'teams' | 'winningTeam' | 'winningTeams'>): RoundTeam[] => {
+  const teamIds = getWinningTeamIds(round);
+  return (round.teams || []).filter(team => teamIds.includes(team.id));
+};
@@ -0,0 +1,77 @@
+import type { PlayoffScore, TieBreak } from './firebase';
+import { sumHoles } from './scoring';
+
+// Settling a tie for first: countback over the closing holes, a sudden-death
+// playoff, or simply sharing the win.
+
+export const COUNTBACK_SEGMENTS = [9, 6, 3, 1];
+
+export const TIE_BREAK_OPTIONS: { value: TieBreak; label: string }[] = [
+  { value: 'countback', label: 'Countback (last 9, 6, 3, 1)' },
+  { value: 'playoff', label: 'Playoff holes' },
+  { value: 'shared', label: 'Shared win' }
+];
+
+export interface TieContender {
+  id: string;
+  holes: number[]; // Per-hole value in the format's unit
+}
+
+export interface TieResolution {
+  winners: string[];
+  decidedBy?: string;
+}
+
+// Those with the best value, e.g. the lowest total over the last 6 holes
+const keepBest = <T>(entries: T[], value: (entry: T) => number, lowerIsBetter: boolean): T[] => {
+  const values = entries.map(value);
+  const best = lowerIsBetter ? Math.min(...values) : Math.max(...values);
+  return entries.filter((_, i) => values[i] === best);
+};
+
+// Compares the last 9, 6, 3 and final hole in turn. Segments as long as the
+// round itself are skipped, so a 9-hole round starts with the last 6.
+export const resolveCountback = (contenders: TieContender[], lowerIsBetter: boolean): TieResolution => {
+  let remaining = contenders;
+  const holeCount = Math.max(0, ...contenders.map(contender => contender.holes.length));
+
+  for (const segment of COUNTBACK_SEGMENTS.filter(length => length < holeCount)) {
+    remaining = keepBest(remaining, contender => sumHoles(contender.holes.slice(holeCount - segment)), lowerIsBetter);
+    if (remaining.length === 1) {
+      return { winners: [remaining[0].id], decidedBy: `Countback (last ${segment === 1 ? 'hole' : segment})` };
+    }
+  }
+  return { winners: remaining.map(contender => contender.id) };
+};
+
+// Sudden death: anyone beaten on a playoff hole drops out. A hole only counts
+// once every remaining contender has a score for it.
+export const resolvePlayoff = (ids: string[], playoff: PlayoffScore[]): TieResolution => {
+  let remaining = ids;
+  const getHoles = (id: string) => playoff.find(entry => entry.id === id)?.holes || [];
+  const holeCount = Math.max(0, ...ids.map(id => getHoles(id).length));
+
+  for (let hole = 0; hole < holeCount; hole++) {
+    if (remaining.some(id => !getHoles(id)[hole])) break;
+    remaining = keepBest(remaining, id => getHoles(id)[hole], true);
+    if (remaining.length === 1) {
+      return { winners: remaining, decidedBy: `Playoff (${hole + 1} hole${hole === 0 ? '' : 's'})` };
+    }
+  }
+  return { winners: remaining };
+};
+
+export const resolveTie = (
+  contenders: TieContender[],
+  lowerIsBetter: boolean,
+  tieBreak: TieBreak,
+  playoff: PlayoffScore[] = []
+): TieResolution => {
+  if (contenders.length <= 1 || tieBreak === 'shared') {
+    return { winners: contenders.map(contender => contender.id) };
+  }
+  if (tieBreak === 'playoff') {
+    return resolvePlayoff(contenders.map(contender => contender.id), playoff);
+  }
+  return resolveCountback(contenders, lowerIsBetter);
+};
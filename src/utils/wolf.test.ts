@@ -0,0 +1,84 @@
+import type { WolfHole } from './firebase';
+import { calculateWolf, describeWolfChoice, getWolf, getWolfResultLabel } from './wolf';
+
+const ORDER = ['a', 'b', 'c', 'd'];
+
+describe('getWolf', () => {
+  it('rotates the Wolf through the tee order', () => {
+    expect([0, 1, 2, 3, 4].map(hole => getWolf(ORDER, hole))).toEqual(['a', 'b', 'c', 'd', 'a']);
+  });
+});
+
+describe('calculateWolf', () => {
+  const scoreHole = (scores: number[], decision: Parameters<typeof calculateWolf>[3][number]) => {
+    const byPlayer = Object.fromEntries(ORDER.map((uid, i) => [uid, [scores[i]]]));
+    return calculateWolf(ORDER, byPlayer, 1, { 0: decision }, 'gross').holes[0];
+  };
+
+  it('pays the Wolf and partner when they win', () => {
+    const hole = scoreHole([3, 5, 4, 5], { choice: 'partner', partner: 'b' });
+
+    expect(hole.result).toBe('wolf');
+    expect(hole.points).toEqual([2, 2, 0, 0]);
+  });
+
+  it('pays the field the loss value when the Wolf side loses', () => {
+    const hole = scoreHole([5, 5, 4, 5], { choice: 'partner', partner: 'b' });
+
+    expect(hole.result).toBe('field');
+    expect(hole.points).toEqual([0, 0, 3, 3]);
+  });
+
+  it('pays a lone wolf more for going it alone', () => {
+    expect(scoreHole([3, 4, 4, 4], { choice: 'lone', partner: null }).points).toEqual([4, 0, 0, 0]);
+    expect(scoreHole([5, 4, 4, 4], { choice: 'lone', partner: null }).points).toEqual([0, 1, 1, 1]);
+  });
+
+  it('pays a blind wolf the most', () => {
+    expect(scoreHole([3, 4, 4, 4], { choice: 'blind', partner: null }).points).toEqual([6, 0, 0, 0]);
+  });
+
+  it('scores nothing on a halved hole', () => {
+    const hole = scoreHole([4, 4, 4, 4], { choice: 'lone', partner: null });
+
+    expect(hole.result).toBe('halved');
+    expect(hole.points).toEqual([0, 0, 0, 0]);
+  });
+
+  it('waits for a decision, a partner and every score', () => {
+    const scores = { a: [3, 3, 3], b: [4, 4, 4], c: [4, 4, 0], d: [4, 4, 4] };
+    const result = calculateWolf(ORDER, scores, 3, { 1: { choice: 'partner', partner: null }, 2: { choice: 'lone', partner: null } }, 'gross');
+
+    expect(result.holes.map(hole => hole.result)).toEqual([null, null, null]);
+  });
+
+  it('adds up the points per player', () => {
+    const scores = { a: [3, 4], b: [5, 3], c: [4, 5], d: [5, 5] };
+    const decisions = { 0: { choice: 'lone' as const, partner: null }, 1: { choice: 'partner' as const, partner: 'c' } };
+    const result = calculateWolf(ORDER, scores, 2, decisions, 'gross');
+
+    expect(result.standings).toEqual([
+      { uid: 'a', points: 4 },
+      { uid: 'b', points: 2 },
+      { uid: 'c', points: 2 },
+      { uid: 'd', points: 0 }
+    ]);
+  });
+});
+
+describe('describing a Wolf hole', () => {
+  const hole: WolfHole = { wolf: 'a', choice: 'partner', partner: 'b', result: 'wolf', points: [2, 2, 0, 0] };
+  const getPlayerName = (uid: string) => (uid === 'b' ? 'Sam' : uid);
+
+  it('names the partner the Wolf picked', () => {
+    expect(describeWolfChoice(hole, getPlayerName)).toBe('With Sam');
+    expect(describeWolfChoice({ ...hole, choice: 'blind', partner: null }, getPlayerName)).toBe('Blind wolf');
+    expect(describeWolfChoice({ ...hole, choice: null, partner: null }, getPlayerName)).toBe('Undecided');
+  });
+
+  it('labels the result once the hole is decided', () => {
+    expect(getWolfResultLabel(hole)).toBe('Wolf won');
+    expect(getWolfResultLabel({ ...hole, result: 'field' })).toBe('Wolf lost');
+    expect(getWolfResultLabel({ ...hole, result: null })).toBe('');
+  });
+});
@@ -0,0 +1,91 @@
+import type { ScoringMode, WolfChoice, WolfHole, WolfResult } from './firebase';
+import { getSideScore } from './matchPlay';
+
+export const WOLF_PLAYERS = 4;
+
+// Points each winner gets per hole. When the Wolf's side loses, each player
+// in the field gets the loss value instead.
+export const WOLF_POINTS: { [choice in WolfChoice]: { win: number; loss: number } } = {
+  partner: { win: 2, loss: 3 },
+  lone: { win: 4, loss: 1 },
+  blind: { win: 6, loss: 2 }
+};
+
+export interface WolfDecision {
+  choice: WolfChoice;
+  partner: string | null;
+}
+
+export const getWolf = (order: string[], hole: number) => order[hole % order.length];
+
+// Scores every hole the Wolf has decided and everyone has finished, best ball
+// against best ball. `scores` are the gross or net hole scores to compare.
+export const calculateWolf = (
+  order: string[],
+  scores: { [uid: string]: number[] },
+  holeCount: number,
+  decisions: { [hole: number]: WolfDecision },
+  mode: ScoringMode
+): WolfResult => {
+  const holes: WolfHole[] = Array.from({ length: holeCount }, (_, hole) => {
+    const wolf = getWolf(order, hole);
+    const decision = decisions[hole];
+    const empty: WolfHole = {
+      wolf,
+      choice: decision?.choice || null,
+      partner: decision?.choice === 'partner' ? decision.partner : null,
+      result: null,
+      points: order.map(() => 0)
+    };
+
+    const finished = order.every(uid => (scores[uid]?.[hole] || 0) > 0);
+    if (!decision || !finished || (decision.choice === 'partner' && !decision.partner)) {
+      return empty;
+    }
+
+    const wolfSide = empty.partner ? [wolf, empty.partner] : [wolf];
+    const field = order.filter(uid => !wolfSide.includes(uid));
+    const wolfScore = getSideScore(wolfSide, scores, hole);
+    const fieldScore = getSideScore(field, scores, hole);
+
+    if (wolfScore === fieldScore) {
+      return { ...empty, result: 'halved' };
+    }
+
+    const { win, loss } = WOLF_POINTS[decision.choice];
+    const wolfWon = wolfScore < fieldScore;
+    return {
+      ...empty,
+      result: wolfWon ? 'wolf' : 'field',
+      points: order.map(uid => {
+        if (wolfWon) return wolfSide.includes(uid) ? win : 0;
+        return field.includes(uid) ? loss : 0;
+      })
+    };
+  });
+
+  return {
+    order,
+    mode,
+    holes,
+    standings: order.map((uid, i) => ({
+      uid,
+      points: holes.reduce((sum, hole) => sum + hole.points[i], 0)
+    }))
+  };
+};
+
+// e.g. "Lone wolf" or "Wolf + Sam"
+export const describeWolfChoice = (hole: WolfHole, getPlayerName: (uid: string) => string) => {
+  if (hole.choice === 'lone') return 'Lone wolf';
+  if (hole.choice === 'blind') return 'Blind wolf';
+  if (hole.choice === 'partner' && hole.partner) return `With ${getPlayerName(hole.partner)}`;
+  return 'Undecided';
+};
+
+export const getWolfResultLabel = (hole: WolfHole) => {
+  if (hole.result === 'wolf') return 'Wolf won';
+  if (hole.result === 'field') return 'Wolf lost';
+  if (hole.result === 'halved') return 'Halved';
+  return '';
+};